@@ -0,0 +1,47 @@
+// Serves public/resume.json for trying the resume loader against a local server:
+//
+//   npm run mock:resume                 # listens on http://localhost:4000 (PORT to change)
+//   npm run dev, then open /?resume=http://localhost:4000/resume.json?fail=2%26delay=1500
+//
+// Query parameters shape the response: `delay=<ms>` waits before answering,
+// `fail=<n>` answers 503 to the first n requests for that URL (to exercise the
+// retries), and `status=<code>` always answers with that status. Responses carry
+// an ETag and Last-Modified and honour If-None-Match / If-Modified-Since. Stop
+// the server to see the page fall back to its saved copy.
+import { createHash } from 'node:crypto';
+import { readFile, stat } from 'node:fs/promises';
+import { createServer } from 'node:http';
+
+const FILE = new URL('../public/resume.json', import.meta.url);
+const PORT = Number(process.env.PORT) || 4000;
+const failures = new Map();
+
+const server = createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'If-None-Match, If-Modified-Since');
+  res.setHeader('Access-Control-Expose-Headers', 'ETag, Last-Modified');
+  if (req.method === 'OPTIONS') return res.writeHead(204).end();
+
+  const url = new URL(req.url ?? '/', `http://localhost:${PORT}`);
+  if (url.pathname !== '/resume.json') return res.writeHead(404).end();
+  const delay = Number(url.searchParams.get('delay')) || 0;
+  if (delay) await new Promise((resolve) => setTimeout(resolve, delay));
+
+  const seen = failures.get(req.url) ?? 0;
+  failures.set(req.url, seen + 1);
+  const status = Number(url.searchParams.get('status')) || (seen < (Number(url.searchParams.get('fail')) || 0) ? 503 : 200);
+  if (status !== 200) return res.writeHead(status).end();
+
+  const [body, info] = await Promise.all([readFile(FILE), stat(FILE)]);
+  const etag = `"${createHash('sha1').update(body).digest('hex')}"`;
+  const lastModified = info.mtime.toUTCString();
+  res.setHeader('ETag', etag);
+  res.setHeader('Last-Modified', lastModified);
+  const since = req.headers['if-modified-since'];
+  const unchanged = req.headers['if-none-match'] === etag || (since && Date.parse(since) >= Math.floor(info.mtimeMs / 1000) * 1000);
+  console.log(`${req.method} ${req.url} -> ${unchanged ? 304 : 200}`);
+  if (unchanged) return res.writeHead(304).end();
+  res.writeHead(200, { 'Content-Type': 'application/json' }).end(body);
+});
+
+server.listen(PORT, () => console.log(`Mock resume server on http://localhost:${PORT}/resume.json`));
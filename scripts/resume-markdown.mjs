@@ -0,0 +1,64 @@
+// Keeps RESUME.md and public/resume.json in step:
+//
+//   npm run resume:md        # writes RESUME.md from resume.json
+//   npm run resume:import    # copies Markdown edits made in RESUME.md back into resume.json
+//   npm run resume:check     # lists the fields that differ between the two; fails if any do
+//
+// The check also runs before `npm run build`. The formatting lives in src/resume/markdown.ts,
+// loaded through Vite so the script and the app share one TypeScript implementation.
+import { readFile, writeFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { runnerImport } from 'vite';
+
+const ROOT = fileURLToPath(new URL('..', import.meta.url));
+const JSON_FILE = new URL('../public/resume.json', import.meta.url);
+const MARKDOWN_FILE = new URL('../RESUME.md', import.meta.url);
+
+const load = async (id) => (await runnerImport(id, { root: ROOT, configFile: false, logLevel: 'error' })).module;
+const { validateResume } = await load('/src/resume/schema.ts');
+const { parseResumeMarkdown, resumeDifferences, resumeMarkdownFile } = await load('/src/resume/markdown.ts');
+
+function fail(message) {
+  console.error(message);
+  process.exit(1);
+}
+
+/** Validates `json`, failing on the problems that keep it from being used. */
+function usable(json, file) {
+  const { resume, problems } = validateResume(json);
+  problems.forEach((p) => console.warn(`${file}: ${p.path}: ${p.message}`));
+  if (!resume || problems.some((p) => p.severity === 'error')) fail(`${file} doesn't match the Resume type.`);
+  return resume;
+}
+
+const show = (value) => (value === undefined ? '(missing)' : JSON.stringify(value));
+
+const json = usable(JSON.parse(await readFile(JSON_FILE, 'utf8')), 'public/resume.json');
+const command = process.argv[2];
+
+if (command === 'generate') {
+  await writeFile(MARKDOWN_FILE, resumeMarkdownFile(json));
+  console.log('Wrote RESUME.md from public/resume.json.');
+} else if (command === 'import' || command === 'check') {
+  const markdown = await readFile(MARKDOWN_FILE, 'utf8');
+  const { resume, warnings } = parseResumeMarkdown(markdown, json);
+  warnings.forEach((w) => console.warn(`RESUME.md: ${w}`));
+  const differences = resumeDifferences(json, resume);
+
+  if (command === 'import') {
+    if (warnings.length) fail('Fix the lines above before importing, or they would be dropped from resume.json.');
+    if (!differences.length) console.log('public/resume.json already matches RESUME.md.');
+    else {
+      await writeFile(JSON_FILE, `${JSON.stringify(usable(resume, 'RESUME.md'), null, 2)}\n`);
+      console.log(`Updated ${differences.map((d) => d.path).join(', ')} in public/resume.json.`);
+    }
+  } else if (differences.length || warnings.length) {
+    differences.forEach((d) => console.error(`${d.path}\n  resume.json: ${show(d.json)}\n  RESUME.md:   ${show(d.markdown)}`));
+    fail('RESUME.md and public/resume.json have drifted apart. Run `npm run resume:md` to regenerate RESUME.md, or `npm run resume:import` to keep its edits.');
+  } else {
+    if (markdown !== resumeMarkdownFile(json)) console.warn('RESUME.md holds the same data but is laid out differently from `npm run resume:md`.');
+    console.log('RESUME.md matches public/resume.json.');
+  }
+} else {
+  fail('Usage: node scripts/resume-markdown.mjs generate|import|check');
+}
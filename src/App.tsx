@@ -1,104 +1,308 @@
-import { useEffect, useMemo, useRef, useState } from 'react';
+import { Fragment, useEffect, useMemo, useRef, useState } from 'react';
+import bundledResume from 'virtual:bundled-resume';
 import './App.css';
+import { fuzzyMatch } from './commands/fuzzy';
+import {
+  commandForEvent,
+  DEFAULT_KEYBINDINGS,
+  findConflicts,
+  formatKeybinding,
+  loadUserKeybindings,
+  parseUserKeybindings,
+  resolveKeybindings,
+  saveUserKeybindings,
+  type Keybinding,
+} from './commands/keybindings';
+import { commandLabel, isEnabled, type Command } from './commands/registry';
+import ActivityBar, { type SideView } from './components/ActivityBar';
+import BottomPanel from './components/BottomPanel';
+import Breadcrumbs from './components/Breadcrumbs';
+import CommandPalette from './components/CommandPalette';
+import ContextMenu, { type ContextMenuItem } from './components/ContextMenu';
+import Editor, { type CursorPosition, type RevealRequest } from './components/Editor';
+import ExplorerTree from './components/ExplorerTree';
+import ExportMenu, { type ExportItem } from './components/ExportMenu';
+import FileIcon from './components/FileIcon';
+import KeyboardShortcuts from './components/KeyboardShortcuts';
+import MarkdownPreview from './components/MarkdownPreview';
+import OutlineView from './components/OutlineView';
+import PrintView from './components/PrintView';
+import ProblemsPanel from './components/ProblemsPanel';
+import SearchView, { type FileSearchResult } from './components/SearchView';
+import SourceControlView from './components/SourceControlView';
+import StatusBar from './components/StatusBar';
+import Terminal from './components/Terminal';
+import ThemePicker from './components/ThemePicker';
+import Timeline from './components/Timeline';
+import Toast from './components/Toast';
+import { downloadFile } from './export/download';
+import { toPlainText } from './export/formats';
+import { toJsonResume } from './export/jsonResume';
+import { buildTree, folderPaths } from './explorer/tree';
+import { openLink } from './highlight/links';
+import { languageForPath } from './highlight/tokenize';
+import { commitDocument, gitLog, type GitLogRow } from './resume/gitLog';
+import { loadResume, resumeSources, type ResumeSource } from './resume/loader';
+import { resumeToMarkdown } from './resume/markdown';
+import type { Problem, SourceIndexes } from './resume/schema';
+import {
+  isKnownSectionId,
+  SECTION_COLLECTIONS,
+  SECTION_DESCRIPTORS,
+  sectionForPath,
+  sectionForProblem,
+  sectionLines,
+  sectionLinks,
+  sectionsFor,
+  sectionSymbols,
+  type SectionDescriptor,
+  type SectionId,
+} from './resume/sections';
+import { symbolPathAt, type DocumentSymbol } from './resume/symbols';
+import type { Resume } from './resume/types';
+import { buildMatcher, searchLines, type SearchOptions } from './search/textSearch';
+import { STATUS_BAR_ITEMS, type StatusBarContext } from './statusbar/items';
+import type { ShellContext } from './terminal/shell';
+import { THEMES } from './themes';
+import { useColorTheme } from './themes/useColorTheme';
+import { decodeLayout, encodeLayout, type EditorLayout } from './workspace/deepLink';
+import {
+  findGroup,
+  groupsOf,
+  MIN_SIZE,
+  moveTab,
+  nextGroupId,
+  openInGroup,
+  removeFromGroup,
+  resizeSplit,
+  singleGroup,
+  splitGroup,
+  type EditorGroup,
+  type GridNode,
+  type GroupId,
+  type SplitDirection,
+} from './workspace/grid';
+import {
+  closedTabs,
+  recordLayout,
+  redoLayout,
+  rememberClosed,
+  restoreTab,
+  takeClosedTab,
+  undoLayout,
+  type ClosedTab,
+  type LayoutHistory,
+} from './workspace/history';
+import { loadWorkspace, saveWorkspace } from './workspace/storage';
 
-type SectionId = 'home' | 'about' | 'experience' | 'projects' | 'skills' | 'education' | 'training' | 'contact';
-
-type Section = {
+type OpenTab = {
   id: SectionId;
   title: string;
-  filePath: string;
 };
 
-type OpenTab = {
-  id: SectionId;
-  title: string;
+/** A tab being dragged, from an editor group or (with `from` null) from the explorer. */
+type DragSource = { id: SectionId; from: GroupId | null };
+
+/** Where a drag would land: a position in a group's tab strip, or a zone over its editor. */
+type DropTarget = { group: GroupId; index?: number; zone?: 'center' | SplitDirection };
+
+const SPLIT_ITEMS: Array<{ direction: SplitDirection; label: string }> = [
+  { direction: 'up', label: 'Split Up' },
+  { direction: 'down', label: 'Split Down' },
+  { direction: 'left', label: 'Split Left' },
+  { direction: 'right', label: 'Split Right' },
+];
+
+/** Highlighted part of an editor for each drop zone: all of it, or the half a split would take. */
+const DROP_ZONE_CLASSES: Record<'center' | SplitDirection, string> = {
+  center: 'inset-0',
+  left: 'inset-y-0 left-0 right-1/2',
+  right: 'inset-y-0 right-0 left-1/2',
+  up: 'inset-x-0 top-0 bottom-1/2',
+  down: 'inset-x-0 bottom-0 top-1/2',
 };
 
-type Resume = {
-  basics: {
-    name: string;
-    label: string;
-    summary?: string;
-    location?: { country?: string };
-    profiles?: Array<{ network: string; username?: string; url?: string | null }>;
-  };
-  skills: Array<{ name: string; keywords: string[] }>;
-  work: Array<{
-    name: string;
-    position: string;
-    startDate: string;
-    endDate: string | null;
-    highlights: string[];
-  }>;
-  projects: Array<{
-    name: string;
-    year?: number;
-    summary?: string;
-    technologies?: string[];
-    url?: string | null;
-  }>;
-  education: Array<{
-    institution: string;
-    studyType?: string;
-    area?: string;
-    startDate?: string;
-    endDate?: string;
-    score?: string;
-  }>;
-  certificates: Array<{ name: string; issuer?: string; date?: string }>;
-  interests?: string[];
-  meta?: Record<string, unknown>;
+/** A splitter being dragged: the split's path in the grid, the boundary after child `index`, and the split's box. */
+type SplitterDrag = { path: number[]; index: number; orientation: 'horizontal' | 'vertical'; rect: DOMRect; sizes: number[] };
+
+/** Moves the boundary after child `index` so that child gets `first`; only it and the next child change size. */
+function moveBoundary(sizes: number[], index: number, first: number): number[] {
+  const pair = sizes[index] + sizes[index + 1];
+  const clamped = Math.min(Math.max(first, MIN_SIZE), pair - MIN_SIZE);
+  const next = [...sizes];
+  next[index] = clamped;
+  next[index + 1] = pair - clamped;
+  return next;
+}
+
+/** How far one arrow key press moves a splitter, as a fraction of its split. */
+const SPLITTER_STEP = 0.05;
+
+/** DOM ids linking each tab to its group's editor for `aria-controls` and `aria-labelledby`. */
+const tabDomId = (group: GroupId, id: SectionId) => `tab-${group}-${id}`;
+const panelDomId = (group: GroupId) => `editor-panel-${group}`;
+
+const COLLECTION_FOLDERS = SECTION_COLLECTIONS.map((c) => c.folder);
+
+/** Editors for the workbench itself rather than the resume; they open in tabs like sections but aren't in the explorer. */
+const WORKBENCH_EDITORS: Record<string, { title: string; icon: string }> = {
+  'keyboard-shortcuts': { title: 'Keyboard Shortcuts', icon: 'keybindings.json' },
+  timeline: { title: 'Timeline', icon: 'experience.timeline' },
 };
 
-const SECTIONS: Section[] = [
-  { id: 'home', title: 'Home', filePath: 'home.md' },
-  { id: 'about', title: 'About', filePath: 'about.md' },
-  { id: 'experience', title: 'Experience', filePath: 'experience.ts' },
-  { id: 'projects', title: 'Projects', filePath: 'projects.json' },
-  { id: 'skills', title: 'Skills', filePath: 'skills.ts' },
-  { id: 'education', title: 'Education', filePath: 'education.md' },
-  { id: 'training', title: 'Training & Certs', filePath: 'training.md' },
-  { id: 'contact', title: 'Contact', filePath: 'contact.tsx' },
-];
+const GROUP_ORDINALS = ['First', 'Second', 'Third', 'Fourth'];
+
+/** Markdown sections can also be shown rendered, in a tab of their own whose id wraps the section's. */
+const PREVIEW_PREFIX = 'preview:';
+
+const previewId = (id: SectionId): SectionId => `${PREVIEW_PREFIX}${id}`;
+
+function previewSource(id: SectionId): SectionId | null {
+  return id.startsWith(PREVIEW_PREFIX) ? id.slice(PREVIEW_PREFIX.length) : null;
+}
+
+/** Commits from the Source Control view open in tabs whose id is the commit's hash. */
+const COMMIT_PREFIX = 'commit:';
+
+const commitId = (hash: string): SectionId => `${COMMIT_PREFIX}${hash}`;
+
+function commitHash(id: SectionId): string | null {
+  return id.startsWith(COMMIT_PREFIX) ? id.slice(COMMIT_PREFIX.length) : null;
+}
+
+function isMarkdownSection(id: SectionId): boolean {
+  const section = SECTION_DESCRIPTORS.find((s) => s.id === id);
+  return !!section && languageForPath(section.filePath) === 'markdown';
+}
+
+function isSectionId(id: string): id is SectionId {
+  const source = previewSource(id);
+  if (source !== null) return isMarkdownSection(source);
+  const hash = commitHash(id);
+  return hash !== null ? /^[0-9a-f]{40}$/.test(hash) : isKnownSectionId(id) || id in WORKBENCH_EDITORS;
+}
+
+/** Entries of a collection are titled by their file name until the resume loads and `sections` has them. */
+function toOpenTab(id: SectionId, sections: SectionDescriptor[]): OpenTab {
+  const source = previewSource(id);
+  if (source !== null) return { id, title: `Preview ${sections.find((s) => s.id === source)?.filePath ?? source}` };
+  const hash = commitHash(id);
+  if (hash !== null) return { id, title: `Commit ${hash.slice(0, 7)}` };
+  const section = sections.find((s) => s.id === id);
+  return { id, title: section?.title ?? WORKBENCH_EDITORS[id]?.title ?? id.slice(id.lastIndexOf('/') + 1) };
+}
+
+/** The editor area is never empty: closing the last tab of the last group shows Home. */
+function withHome(grid: GridNode<SectionId>): GridNode<SectionId> {
+  const groups = groupsOf(grid);
+  return groups.length === 1 && !groups[0].tabs.length ? openInGroup(grid, groups[0].id, 'home') : grid;
+}
+
+/** Closes tabs for sections, and commits of the history, that the loaded data doesn't have. */
+function dropMissingTabs(grid: GridNode<SectionId>, sections: SectionDescriptor[], commits: GitLogRow[]): GridNode<SectionId> {
+  const known = (id: SectionId) => {
+    const hash = commitHash(id);
+    if (hash !== null) return commits.some((row) => row.commit.hash === hash);
+    return id in WORKBENCH_EDITORS || sections.some((s) => s.id === (previewSource(id) ?? id));
+  };
+  return withHome(groupsOf(grid).reduce((acc, group) => removeFromGroup(acc, group.id, (id) => !known(id)), grid));
+}
 
 function App() {
-  const [leftOpenTabs, setLeftOpenTabs] = useState<OpenTab[]>([{ id: 'home', title: 'Home' }]);
-  const [leftActiveTabId, setLeftActiveTabId] = useState<SectionId>('home');
-  const [rightOpenTabs, setRightOpenTabs] = useState<OpenTab[]>([]);
-  const [rightActiveTabId, setRightActiveTabId] = useState<SectionId | null>(null);
+  const [savedWorkspace] = useState(() => {
+    const stored = loadWorkspace(isSectionId);
+    // A layout in the URL wins over the one remembered from the last visit.
+    const linked = decodeLayout(window.location.hash, isSectionId);
+    return linked ? { sidebarCollapsed: stored?.sidebarCollapsed ?? false, collapsedFolders: stored?.collapsedFolders ?? [], ...linked } : stored;
+  });
+  const [grid, setGrid] = useState<GridNode<SectionId>>(() => savedWorkspace?.grid ?? singleGroup<SectionId>(['home']));
+  const [activeGroupId, setActiveGroupId] = useState<GroupId>(() => (savedWorkspace ? groupsOf(savedWorkspace.grid)[0].id : '1'));
+  const [closedTabHistory, setClosedTabHistory] = useState<ClosedTab<SectionId>[]>([]);
+  const [layoutHistory, setLayoutHistory] = useState<LayoutHistory<SectionId>>({ past: [], future: [] });
   const [query, setQuery] = useState('');
+  const [paletteIndex, setPaletteIndex] = useState(0);
   const searchInputRef = useRef<HTMLInputElement | null>(null);
-  const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
-
-  type ContextMenuState = null | {
-    x: number;
-    y: number;
-    type: 'tab';
-    tabId: SectionId;
-    group: 'left' | 'right';
-  };
+  const commandsRef = useRef<Command[]>([]);
+  const keybindingsRef = useRef<Keybinding[]>(DEFAULT_KEYBINDINGS);
+  const applyLayoutRef = useRef<(layout: EditorLayout<SectionId>) => void>(() => {});
+  /** How the next layout change is written to the URL: a new history entry, or in place after a link was applied. */
+  const urlModeRef = useRef<'push' | 'replace'>('replace');
+  const [sidebarCollapsed, setSidebarCollapsed] = useState(savedWorkspace?.sidebarCollapsed ?? false);
+  const [collapsedFolders, setCollapsedFolders] = useState<string[]>(savedWorkspace?.collapsedFolders ?? []);
+  const [sideView, setSideView] = useState<SideView>('explorer');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>({ caseSensitive: false, wholeWord: false, regex: false });
+  const [reveal, setReveal] = useState<(RevealRequest & { id: SectionId; group: GroupId }) | null>(null);
+
+  type ContextMenuState =
+    | null
+    | {
+        x: number;
+        y: number;
+        type: 'tab';
+        tabId: SectionId;
+        group: GroupId;
+      }
+    | { x: number; y: number; type: 'link'; href: string };
   const [contextMenu, setContextMenu] = useState<ContextMenuState>(null);
-  const [dragIndex, setDragIndex] = useState<number | null>(null);
-  const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
-  const contentRef = useRef<HTMLDivElement | null>(null);
-  const [isResizing, setIsResizing] = useState(false);
-  const [splitRatio, setSplitRatio] = useState(0.5);
-  const [dragOffsetPx, setDragOffsetPx] = useState<number | null>(null);
+  const [dragSource, setDragSource] = useState<DragSource | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [resizing, setResizing] = useState<SplitterDrag | null>(null);
 
   const [resume, setResume] = useState<Resume | null>(null);
   const [resumeLoading, setResumeLoading] = useState<boolean>(true);
+  const [resumeSource, setResumeSource] = useState<ResumeSource | null>(null);
+  /** Bumped to fetch the resume again. */
+  const [reloadCount, setReloadCount] = useState(0);
+  const [sourceNoticeDismissed, setSourceNoticeDismissed] = useState(false);
+  const [cursor, setCursor] = useState<(CursorPosition & { id: SectionId; group: GroupId }) | null>(null);
+  /** The last line pointed at or revealed in a file, which picks the symbol shown in the breadcrumbs and the Outline. */
+  const [symbolLine, setSymbolLine] = useState<{ id: SectionId; group: GroupId; line: number } | null>(null);
+  const [outlineCollapsed, setOutlineCollapsed] = useState(false);
+  const [problems, setProblems] = useState<Problem[]>([]);
+  /** Input positions of the resume's list entries, so the files for them match the paths of their problems. */
+  const [sourceIndexes, setSourceIndexes] = useState<SourceIndexes>({});
+  const [panelOpen, setPanelOpen] = useState(false);
+  const [panelTab, setPanelTab] = useState<'problems' | 'terminal'>('problems');
+  const [panelHeight, setPanelHeight] = useState(220);
+  const [keybindingsSource, setKeybindingsSource] = useState(loadUserKeybindings);
+  const [announcement, setAnnouncement] = useState('');
+  /** A short-lived notification, such as the outcome of copying to the clipboard. */
+  const [notice, setNotice] = useState<{ message: string; severity: 'info' | 'warning' } | null>(null);
+  /** Where a Markdown section or its preview was last scrolled to, so the other one, if showing, can follow. */
+  const [previewScroll, setPreviewScroll] = useState<{ source: SectionId; line: number; from: 'editor' | 'preview' } | null>(null);
+  /** Group whose active tab should take keyboard focus after the next render, e.g. once a focused tab is closed. */
+  const focusTabInGroupRef = useRef<GroupId | null>(null);
+  const { preference: themePreference, setPreference: setThemePreference } = useColorTheme();
+
+  const sections = useMemo(() => sectionsFor(resume, sourceIndexes), [resume, sourceIndexes]);
+  const gitLogRows = useMemo(() => (resume ? gitLog(resume, new Date(), sourceIndexes) : []), [resume, sourceIndexes]);
+  const sectionById = (id: SectionId) => sections.find((s) => s.id === id);
+
+  useEffect(() => {
+    if (!resume) return;
+    // Tabs restored before the data arrived are closed if the data has no such entry.
+    setGrid((g) => dropMissingTabs(g, sections, gitLogRows));
+  }, [resume, sections, gitLogRows]);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(() => setNotice(null), 4000);
+    return () => clearTimeout(timer);
+  }, [notice]);
 
   const filteredSections = useMemo(() => {
-    if (!query.trim()) return SECTIONS;
+    if (!query.trim()) return sections;
     const q = query.toLowerCase();
-    return SECTIONS.filter((s) => s.title.toLowerCase().includes(q) || s.filePath.toLowerCase().includes(q));
-  }, [query]);
+    return sections.filter((s) => s.title.toLowerCase().includes(q) || s.filePath.toLowerCase().includes(q));
+  }, [query, sections]);
 
   useEffect(() => {
     const onKeyDown = (e: KeyboardEvent) => {
-      if ((e.metaKey || e.ctrlKey) && (e.key === 'k' || e.key === 'K')) {
+      const command = commandForEvent(commandsRef.current, keybindingsRef.current, e);
+      if (command) {
         e.preventDefault();
-        searchInputRef.current?.focus();
+        command.run();
       }
       if (e.key === 'Escape') {
         setContextMenu(null);
@@ -109,64 +313,93 @@ function App() {
   }, []);
 
   useEffect(() => {
+    // A reload started before this one finished must not overwrite its result.
+    let cancelled = false;
     async function load() {
       setResumeLoading(true);
-      const primary = 'https://raw.githubusercontent.com/lalitbing/LalitBing/main/details.json';
-      const fallback = '/resume.json';
-      try {
-        const res = await fetch(primary, { cache: 'no-store' });
-        if (!res.ok) throw new Error('primary fetch failed');
-        const data: Resume = await res.json();
-        setResume(data);
-      } catch {
-        try {
-          const res2 = await fetch(fallback, { cache: 'no-store' });
-          if (!res2.ok) throw new Error('fallback fetch failed');
-          const data2: Resume = await res2.json();
-          setResume(data2);
-        } catch {
-          setResume(null);
-        }
-      } finally {
-        setResumeLoading(false);
-      }
+      const result = await loadResume({ sources: resumeSources(), bundled: bundledResume });
+      if (cancelled) return;
+      setResume(result.resume);
+      setProblems(result.problems);
+      setSourceIndexes(result.sourceIndexes);
+      setResumeSource(result.source);
+      setSourceNoticeDismissed(false);
+      setResumeLoading(false);
     }
     load();
-  }, []);
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadCount]);
 
   useEffect(() => {
+    if (!resumeSource || resumeSource.kind === 'network') return;
+    // Serving a saved or bundled copy, so try the sources again once the connection is back.
+    const onOnline = () => setReloadCount((n) => n + 1);
+    window.addEventListener('online', onOnline);
+    return () => window.removeEventListener('online', onOnline);
+  }, [resumeSource]);
+
+  useEffect(() => {
+    if (!resizing) return;
+    const { path, index, orientation, rect, sizes } = resizing;
     function onMove(e: MouseEvent) {
-      if (!isResizing || !contentRef.current) return;
-      const rect = contentRef.current.getBoundingClientRect();
-      const offset = dragOffsetPx ?? 0;
-      const rawX = e.clientX - rect.left - offset;
-      const clampedX = Math.min(Math.max(rawX, 100), rect.width - 100);
-      const ratio = clampedX / rect.width;
-      setSplitRatio(Math.min(Math.max(ratio, 0.2), 0.8));
+      const position = orientation === 'horizontal' ? (e.clientX - rect.left) / rect.width : (e.clientY - rect.top) / rect.height;
+      const before = sizes.slice(0, index).reduce((a, b) => a + b, 0);
+      setGrid((g) => resizeSplit(g, path, moveBoundary(sizes, index, position - before)));
     }
     function onUp() {
-      setIsResizing(false);
-      setDragOffsetPx(null);
-    }
-    if (isResizing) {
-      document.addEventListener('mousemove', onMove);
-      document.addEventListener('mouseup', onUp);
-      const prevCursor = document.body.style.cursor;
-      const prevSelect = document.body.style.userSelect as string;
-      document.body.style.cursor = 'col-resize';
-      (document.body.style as any).userSelect = 'none';
-      return () => {
-        document.removeEventListener('mousemove', onMove);
-        document.removeEventListener('mouseup', onUp);
-        document.body.style.cursor = prevCursor || '';
-        (document.body.style as any).userSelect = prevSelect || '';
-      };
+      setResizing(null);
     }
+    document.addEventListener('mousemove', onMove);
+    document.addEventListener('mouseup', onUp);
+    const prevCursor = document.body.style.cursor;
+    const prevSelect = document.body.style.userSelect;
+    document.body.style.cursor = orientation === 'horizontal' ? 'col-resize' : 'row-resize';
+    document.body.style.userSelect = 'none';
     return () => {
       document.removeEventListener('mousemove', onMove);
       document.removeEventListener('mouseup', onUp);
+      document.body.style.cursor = prevCursor || '';
+      document.body.style.userSelect = prevSelect || '';
     };
-  }, [isResizing]);
+  }, [resizing]);
+
+  useEffect(() => {
+    const groupId = focusTabInGroupRef.current;
+    if (groupId === null) return;
+    focusTabInGroupRef.current = null;
+    // The group is gone if its last tab was closed; focus moves to the first group instead.
+    const group = findGroup(grid, groupId) ?? groupsOf(grid)[0];
+    if (group.active) document.getElementById(tabDomId(group.id, group.active))?.focus();
+  });
+
+  useEffect(() => {
+    // Persist once a splitter drag settles rather than on every mouse move.
+    if (resizing) return;
+    saveWorkspace({ grid, sidebarCollapsed, collapsedFolders });
+  }, [grid, sidebarCollapsed, collapsedFolders, resizing]);
+
+  useEffect(() => {
+    if (resizing) return;
+    const hash = '#' + encodeLayout({ grid });
+    const mode = urlModeRef.current;
+    urlModeRef.current = 'push';
+    if (hash === window.location.hash) return;
+    if (mode === 'push') window.history.pushState(null, '', hash);
+    else window.history.replaceState(null, '', hash);
+  }, [grid, resizing]);
+
+  useEffect(() => {
+    function onPopState() {
+      const layout = decodeLayout(window.location.hash, isSectionId);
+      if (!layout) return;
+      urlModeRef.current = 'replace';
+      applyLayoutRef.current(layout);
+    }
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, []);
 
   useEffect(() => {
     if (!contextMenu) return;
@@ -181,842 +414,1107 @@ function App() {
     };
   }, [contextMenu]);
 
-  function TabContextMenu({
-    x,
-    y,
-    onClose,
-    onCloseTab,
-    onCloseOthers,
-    onCloseRight,
-    onCloseAll,
-    onSplitLeft,
-    onSplitRight,
-    showSplit,
-  }: {
-    x: number;
-    y: number;
-    onClose: () => void;
-    onCloseTab: () => void;
-    onCloseOthers: () => void;
-    onCloseRight: () => void;
-    onCloseAll: () => void;
-    onSplitLeft: () => void;
-    onSplitRight: () => void;
-    showSplit: boolean;
-  }) {
-    const style: React.CSSProperties = {
-      left: Math.min(x, window.innerWidth - 200),
-      top: Math.min(y, window.innerHeight - 160),
-    };
-    return (
-      <div className="fixed z-[9999]" style={style} role="menu">
-        <div
-          className="rounded-lg shadow-2xl py-1"
-          style={{
-            background: 'linear-gradient(180deg, rgba(255,255,255,0.16) 0%, rgba(255,255,255,0.06) 100%)',
-            backdropFilter: 'blur(14px) saturate(140%)',
-            WebkitBackdropFilter: 'blur(14px) saturate(140%)',
-            border: '1px solid rgba(255,255,255,0.18)',
-            boxShadow: '0 10px 30px rgba(0,0,0,0.45), inset 0 1px rgba(255,255,255,0.08), 0 0 0 0.5px rgba(255,255,255,0.06)',
-            width: 160,
-          }}
-        >
-          <button
-            onClick={() => {
-              onCloseTab();
-              onClose();
-            }}
-            className="w-full text-left px-3 py-1.5 text-[13px] text-white/90 hover:bg-white/15"
-            role="menuitem"
-          >
-            Close
-          </button>
-          <button
-            onClick={() => {
-              onCloseOthers();
-              onClose();
-            }}
-            className="w-full text-left px-3 py-1.5 text-[13px] text-white/90 hover:bg-white/15"
-            role="menuitem"
-          >
-            Close Others
-          </button>
-          <button
-            onClick={() => {
-              onCloseRight();
-              onClose();
-            }}
-            className="w-full text-left px-3 py-1.5 text-[13px] text-white/90 hover:bg-white/15"
-            role="menuitem"
-          >
-            Close to the Right
-          </button>
-          <button
-            onClick={() => {
-              onCloseAll();
-              onClose();
-            }}
-            className="w-full text-left px-3 py-1.5 text-[13px] text-white/90 hover:bg-white/15"
-            role="menuitem"
-          >
-            Close All
-          </button>
-          {showSplit && (
-            <>
-              <div className="my-1 h-px bg-white/15" />
-              <button
-                onClick={() => {
-                  onSplitLeft();
-                  onClose();
-                }}
-                className="w-full text-left px-3 py-1.5 text-[13px] text-white/90 hover:bg-white/15"
-                role="menuitem"
-              >
-                Split Left
-              </button>
-              <button
-                onClick={() => {
-                  onSplitRight();
-                  onClose();
-                }}
-                className="w-full text-left px-3 py-1.5 text-[13px] text-white/90 hover:bg-white/15"
-                role="menuitem"
-              >
-                Split Right
-              </button>
-            </>
-          )}
-        </div>
-      </div>
-    );
-  }
-
-  function handleTabDragStart(index: number, e: React.DragEvent<HTMLDivElement>) {
-    setDragIndex(index);
-    setDragOverIndex(index);
+  function handleDragStart(source: DragSource, e: React.DragEvent<HTMLElement>) {
+    setDragSource(source);
     try {
-      e.dataTransfer.effectAllowed = 'move';
-      e.dataTransfer.setData('text/plain', leftOpenTabs[index].id);
+      e.dataTransfer.effectAllowed = source.from === null ? 'copy' : 'move';
+      e.dataTransfer.setData('text/plain', source.id);
     } catch {}
   }
 
-  function handleTabDragOver(index: number, e: React.DragEvent<HTMLDivElement>) {
+  function handleDragOver(target: DropTarget, e: React.DragEvent<HTMLElement>) {
+    if (!dragSource) return;
     e.preventDefault();
-    if (dragOverIndex !== index) setDragOverIndex(index);
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = dragSource.from === null ? 'copy' : 'move';
+    const same = dropTarget && dropTarget.group === target.group && dropTarget.index === target.index && dropTarget.zone === target.zone;
+    if (!same) setDropTarget(target);
   }
 
-  function handleTabDrop(index: number, e: React.DragEvent<HTMLDivElement>) {
+  function handleDrop(target: DropTarget, e: React.DragEvent<HTMLElement>) {
     e.preventDefault();
-    if (dragIndex === null) return;
-    if (index === dragIndex) {
-      setDragIndex(null);
-      setDragOverIndex(null);
-      return;
+    e.stopPropagation();
+    if (dragSource) {
+      const { id, from } = dragSource;
+      if (target.zone && target.zone !== 'center') splitTab(id, target.zone, target.group, from);
+      // Dropping a tab back onto its own editor leaves it where it is.
+      else if (!(target.zone === 'center' && from === target.group)) {
+        changeLayout((g) => moveTab(g, id, from, target.group, target.index));
+        setActiveGroupId(target.group);
+      }
     }
-    const next = [...leftOpenTabs];
-    const [moved] = next.splice(dragIndex, 1);
-    const insertIndex = dragIndex < index ? index - 1 : index;
-    next.splice(insertIndex, 0, moved);
-    setLeftOpenTabs(next);
-    setDragIndex(null);
-    setDragOverIndex(null);
+    handleDragEnd();
   }
 
-  function handleTabDragEnd() {
-    setDragIndex(null);
-    setDragOverIndex(null);
+  function handleDragEnd() {
+    setDragSource(null);
+    setDropTarget(null);
   }
 
-  function closeOthers(tabId: SectionId) {
-    setLeftOpenTabs((prev) => prev.filter((t) => t.id === tabId));
-    setLeftActiveTabId(tabId);
+  /** Tab-strip drop position from the pointer: before the hovered tab, or after it past its midpoint. */
+  function tabDropTarget(group: GroupId, index: number, e: React.DragEvent<HTMLElement>): DropTarget {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { group, index: e.clientX > rect.left + rect.width / 2 ? index + 1 : index };
   }
 
-  function closeToRight(tabId: SectionId) {
-    setLeftOpenTabs((prev) => {
-      const idx = prev.findIndex((t) => t.id === tabId);
-      if (idx === -1) return prev;
-      return prev.slice(0, idx + 1);
-    });
-    setLeftActiveTabId(tabId);
+  /** Editor-area drop zone: near an edge splits the group that way, anywhere else opens in the group. */
+  function editorDropTarget(group: GroupId, e: React.DragEvent<HTMLElement>): DropTarget {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = (e.clientX - rect.left) / rect.width;
+    const y = (e.clientY - rect.top) / rect.height;
+    const edges: Array<[SplitDirection, number]> = [
+      ['left', x],
+      ['right', 1 - x],
+      ['up', y],
+      ['down', 1 - y],
+    ];
+    const [side, distance] = edges.reduce((a, b) => (b[1] < a[1] ? b : a));
+    return { group, zone: distance < 0.25 ? side : 'center' };
+  }
+
+  function closeOthers(tabId: SectionId, group: GroupId) {
+    announceClosed((findGroup(grid, group)?.tabs.length ?? 1) - 1);
+    rememberClosedTabs(closedTabs(grid, group, (id) => id !== tabId));
+    changeLayout((g) => removeFromGroup(openInGroup(g, group, tabId), group, (id) => id !== tabId));
+  }
+
+  function closeToRight(tabId: SectionId, group: GroupId) {
+    const tabs = findGroup(grid, group)?.tabs ?? [];
+    const keep = tabs.slice(0, tabs.indexOf(tabId) + 1);
+    announceClosed(tabs.length - keep.length);
+    rememberClosedTabs(closedTabs(grid, group, (id) => !keep.includes(id)));
+    changeLayout((g) => removeFromGroup(openInGroup(g, group, tabId), group, (id) => !keep.includes(id)));
+  }
+
+  function rememberClosedTabs(closed: ClosedTab<SectionId>[]) {
+    setClosedTabHistory((history) => rememberClosed(history, closed));
+  }
+
+  /** Reopens the tab last closed from the focused group (or, failing that, from any group) where it was. */
+  function reopenClosedTab() {
+    const { entry, rest } = takeClosedTab(closedTabHistory, grid, focusedGroup.id);
+    setClosedTabHistory(rest);
+    if (!entry) return;
+    announce(`Reopened ${toOpenTab(entry.id, sections).title}`);
+    setGrid(restoreTab(grid, entry, focusedGroup.id));
+    setActiveGroupId(entry.group);
+  }
+
+  /** Applies a change to the editor layout that Undo Layout Change can revert. */
+  function changeLayout(update: (grid: GridNode<SectionId>) => GridNode<SectionId>) {
+    setLayoutHistory((history) => recordLayout(history, grid));
+    setGrid(update(grid));
+  }
+
+  function stepLayout(step: typeof undoLayout) {
+    const result = step(layoutHistory, grid);
+    if (!result) return;
+    setLayoutHistory(result.history);
+    // Sections may have gone since the layout was recorded, if the resume was reloaded.
+    setGrid(resume ? dropMissingTabs(result.grid, sections, gitLogRows) : result.grid);
+  }
+
+  function announceClosed(count: number) {
+    if (count > 0) announce(`Closed ${count} editor${count === 1 ? '' : 's'}`);
+  }
+
+  /** Replaces the editor grid with one from a deep link. */
+  function applyLayout(layout: EditorLayout<SectionId>) {
+    changeLayout(() => layout.grid);
+    setActiveGroupId(groupsOf(layout.grid)[0].id);
+  }
+
+  function resetLayout() {
+    closeAllTabs();
+    setSidebarCollapsed(false);
+    setSideView('explorer');
+    setCollapsedFolders([]);
+  }
+
+  /** Same precondition as the Split entries in the tab context menu. */
+  function canSplit(group: GroupId) {
+    return (findGroup(grid, group)?.tabs.length ?? 0) >= 2;
   }
 
   function closeAllTabs() {
-    setLeftOpenTabs([{ id: 'home', title: 'Home' }]);
-    setLeftActiveTabId('home');
-    setRightOpenTabs([]);
-    setRightActiveTabId(null);
+    announceClosed(groupsOf(grid).reduce((n, g) => n + g.tabs.length, 0));
+    rememberClosedTabs(groupsOf(grid).flatMap((g) => closedTabs(grid, g.id, () => true)));
+    changeLayout(() => singleGroup<SectionId>(['home']));
+    setActiveGroupId('1');
   }
 
-  function splitTab(tabId: SectionId, direction: 'left' | 'right', fromGroup: 'left' | 'right') {
-    const section = SECTIONS.find((s) => s.id === tabId);
-    if (!section) return;
-    if (direction === 'right') {
-      // Move to right group
-      setRightOpenTabs((prev) => (prev.some((t) => t.id === tabId) ? prev : [...prev, { id: tabId, title: section.title }]));
-      setRightActiveTabId(tabId);
-      if (fromGroup === 'left') {
-        setLeftOpenTabs((prev) => prev.filter((t) => t.id !== tabId));
-        // adjust active if needed
-        if (leftActiveTabId === tabId) setLeftActiveTabId(leftOpenTabs.find((t) => t.id !== tabId)?.id ?? 'home');
-      }
-    } else {
-      // Move to left group
-      setLeftOpenTabs((prev) => (prev.some((t) => t.id === tabId) ? prev : [...prev, { id: tabId, title: section.title }]));
-      setLeftActiveTabId(tabId);
-      if (fromGroup === 'right') {
-        setRightOpenTabs((prev) => prev.filter((t) => t.id !== tabId));
-        if (rightActiveTabId === tabId) setRightActiveTabId(rightOpenTabs.find((t) => t.id !== tabId)?.id ?? null);
-      }
-    }
+  /**
+   * Moves a tab into a new group split off `group` on the given side. The tab
+   * comes from `fromGroup` (the same group by default), or from outside the grid
+   * when that is null.
+   */
+  function splitTab(tabId: SectionId, direction: SplitDirection, group: GroupId, fromGroup: GroupId | null = group) {
+    const id = nextGroupId(grid);
+    changeLayout((g) => {
+      const next = splitGroup(g, group, direction, { id, tabs: [tabId], active: tabId });
+      return fromGroup === null ? next : removeFromGroup(next, fromGroup, (t) => t === tabId);
+    });
+    setActiveGroupId(id);
   }
 
-  function FileIcon({ filePath, className, size = 18 }: { filePath: string; className?: string; size?: number }) {
-    const name = filePath.toLowerCase();
-    const ext = name.split('.').pop() || '';
+  /** Reads a message out through the live region; repeating a message still announces it. */
+  function announce(message: string) {
+    setAnnouncement((prev) => (prev === message ? `${message}\u00a0` : message));
+  }
 
-    function Svg({ children }: { children: any }) {
-      return (
-        <svg width={size} height={size} viewBox="0 0 16 16" xmlns="http://www.w3.org/2000/svg" className={className} aria-hidden>
-          {children}
-        </svg>
-      );
-    }
+  /** Copies a link and says whether it worked: the clipboard is missing outside secure contexts, and writing needs permission and focus. */
+  function copyLink(href: string) {
+    (navigator.clipboard?.writeText(href) ?? Promise.reject(new Error('No clipboard'))).then(
+      () => setNotice({ message: 'Link copied', severity: 'info' }),
+      () => setNotice({ message: "Couldn't copy link", severity: 'warning' }),
+    );
+  }
 
-    // React (tsx)
-    if (ext === 'tsx' || name.endsWith('.jsx')) {
-      return (
-        <Svg>
-          <circle cx="8" cy="8" r="2" fill="#00d8ff" />
-          <g stroke="#00d8ff" strokeWidth="1" fill="none">
-            <ellipse cx="8" cy="8" rx="6" ry="2.5" />
-            <ellipse cx="8" cy="8" rx="6" ry="2.5" transform="rotate(60 8 8)" />
-            <ellipse cx="8" cy="8" rx="6" ry="2.5" transform="rotate(120 8 8)" />
-          </g>
-        </Svg>
-      );
-    }
+  /** Opens a section in a group, the focused one by default. */
+  function openSection(section: OpenTab, group: GroupId = focusedGroup.id) {
+    if (!findGroup(grid, group)?.tabs.includes(section.id)) announce(`Opened ${section.title}`);
+    setGrid((g) => openInGroup(g, group, section.id));
+    setActiveGroupId(group);
+  }
 
-    // TypeScript (.ts)
-    if (ext === 'ts') {
-      return (
-        <Svg>
-          <rect x="1" y="2" width="14" height="12" rx="2" fill="#2f74c0" />
-          <text x="8" y="11" textAnchor="middle" fontSize="7" fontWeight="700" fill="#fff" fontFamily="Inter, system-ui, sans-serif">
-            TS
-          </text>
-        </Svg>
-      );
-    }
+  /** Swaps a Markdown tab for its preview, or a preview for its source, in the same place in the group. */
+  function togglePreview(tabId: SectionId, group: GroupId) {
+    const other = previewSource(tabId) ?? previewId(tabId);
+    setGrid((g) => {
+      const tabs = findGroup(g, group)?.tabs ?? [];
+      // Already open in the group, the other view is just activated where it is.
+      const placed = openInGroup(g, group, other, tabs.includes(other) ? undefined : tabs.indexOf(tabId));
+      return removeFromGroup(placed, group, (t) => t === tabId);
+    });
+  }
 
-    // Vite config
-    if (name === 'vite.config.ts' || name === 'vite.config.js') {
-      return (
-        <Svg>
-          <path d="M2 3l6 10 6-10z" fill="#ffcc66" />
-          <path d="M2.5 3.2L8 12 13.5 3.2" stroke="#7c4dff" strokeWidth="1.3" fill="none" />
-        </Svg>
-      );
-    }
+  /** Shows a Markdown section's preview in the next group, splitting one off to the right if there is none, and keeps focus on the source. */
+  function openPreviewToSide(sourceId: SectionId, group: GroupId) {
+    const other = groups[groups.findIndex((g) => g.id === group) + 1] ?? groups.find((g) => g.id !== group);
+    if (other) setGrid((g) => openInGroup(g, other.id, previewId(sourceId)));
+    else splitTab(previewId(sourceId), 'right', group, null);
+    setActiveGroupId(group);
+  }
 
-    // HTML
-    if (ext === 'html') {
-      return (
-        <Svg>
-          <path d="M2 2h12l-1 11-5 1-5-1z" fill="#e54d26" />
-          <path d="M8 3v9" stroke="#fff" strokeWidth="1" />
-          <path d="M5 5h3m0 0h3M5 8h6M5 11h6" stroke="#fff" strokeWidth="1" />
-        </Svg>
-      );
-    }
+  /** Activates the tab `step` places along the focused group's tab strip, wrapping at either end. */
+  function cycleTab(step: number) {
+    const index = focusedTabId === null ? 0 : focusedTabs.indexOf(focusedTabId);
+    const next = focusedTabs[(index + step + focusedTabs.length) % focusedTabs.length];
+    if (next) openSection(toOpenTab(next, sections), focusedGroup.id);
+  }
 
-    // CSS
-    if (ext === 'css') {
-      return (
-        <Svg>
-          <rect x="1" y="2" width="14" height="12" rx="2" fill="#8a5cf6" />
-          <text x="8" y="11" textAnchor="middle" fontSize="6.5" fontWeight="800" fill="#fff" fontFamily="Inter, system-ui, sans-serif">
-            CSS
-          </text>
-        </Svg>
-      );
-    }
+  function tabMenuItems(tabId: SectionId, group: GroupId): ContextMenuItem[] {
+    const previewItems: ContextMenuItem[] = isMarkdownSection(tabId)
+      ? [
+          { id: 'preview', label: 'Open Preview', run: () => togglePreview(tabId, group) },
+          { id: 'preview-side', label: 'Open Preview to the Side', run: () => openPreviewToSide(tabId, group) },
+        ]
+      : previewSource(tabId) !== null
+        ? [{ id: 'source', label: 'Open Source', run: () => togglePreview(tabId, group) }]
+        : [];
+    return [
+      { id: 'close', label: 'Close', run: () => closeTab(tabId, group) },
+      { id: 'close-others', label: 'Close Others', run: () => closeOthers(tabId, group) },
+      { id: 'close-right', label: 'Close to the Right', run: () => closeToRight(tabId, group) },
+      { id: 'close-all', label: 'Close All', run: closeAllTabs },
+      ...(previewItems.length ? [{ id: 'preview-separator', separator: true as const }, ...previewItems] : []),
+      ...(canSplit(group)
+        ? [
+            { id: 'split-separator', separator: true as const },
+            ...SPLIT_ITEMS.map((item) => ({ id: `split-${item.direction}`, label: item.label, run: () => splitTab(tabId, item.direction, group) })),
+          ]
+        : []),
+    ];
+  }
 
-    // ESLint config
-    if (name.includes('eslint') && (ext === 'js' || ext === 'cjs' || ext === 'mjs')) {
-      return (
-        <Svg>
-          <polygon points="8,2 12.9,5 12.9,11 8,14 3.1,11 3.1,5" fill="#4b32c3" />
-          <text x="8" y="10.5" textAnchor="middle" fontSize="6" fontWeight="700" fill="#fff" fontFamily="Inter, system-ui, sans-serif">
-            ES
-          </text>
-        </Svg>
-      );
-    }
+  function closeTab(tabId: SectionId, group: GroupId) {
+    announce(`Closed ${toOpenTab(tabId, sections).title}`);
+    rememberClosedTabs(closedTabs(grid, group, (id) => id === tabId));
+    changeLayout((g) => withHome(removeFromGroup(g, group, (id) => id === tabId)));
+  }
 
-    // NPM (package.json, package-lock.json)
-    if (name === 'package.json' || name === 'package-lock.json') {
-      return (
-        <Svg>
-          <rect x="1" y="3" width="14" height="10" rx="2" fill="#cb3837" />
-          <text x="8" y="10.5" textAnchor="middle" fontSize="6" fontWeight="800" fill="#fff" fontFamily="Inter, system-ui, sans-serif">
-            npm
-          </text>
-        </Svg>
-      );
-    }
+  function getSectionLines(id: SectionId): string[] {
+    const section = sectionById(id);
+    return section ? sectionLines(section, resume) : [];
+  }
 
-    // TSConfig
-    if (name.startsWith('tsconfig') && ext === 'json') {
+  function renderEditorContent(id: SectionId, group: GroupId) {
+    if (id === 'keyboard-shortcuts') {
       return (
-        <Svg>
-          <rect x="1" y="2" width="14" height="12" rx="2" fill="#2f74c0" />
-          <text x="8" y="10.5" textAnchor="middle" fontSize="6.5" fontWeight="800" fill="#fff" fontFamily="Inter, system-ui, sans-serif">
-            TS
-          </text>
-          <circle cx="12.5" cy="4.5" r="2" stroke="#fff" strokeWidth="1" fill="none" />
-          <circle cx="12.5" cy="4.5" r="1" fill="#fff" />
-        </Svg>
+        <KeyboardShortcuts
+          commands={commands}
+          bindings={keybindings}
+          conflicts={keybindingConflicts}
+          source={keybindingsSource}
+          errors={userKeybindings.errors}
+          onSave={saveKeybindings}
+        />
       );
     }
-
-    // Git ignore
-    if (name === '.gitignore') {
+    const source = previewSource(id);
+    if (source !== null) {
       return (
-        <Svg>
-          <rect x="2" y="3" width="12" height="10" rx="2" fill="#f05133" />
-          <path d="M5 6l6 4M11 6l-6 4" stroke="#fff" strokeWidth="1.2" />
-        </Svg>
+        <MarkdownPreview
+          key={id}
+          lines={getSectionLines(source)}
+          syncLine={previewScroll?.source === source && previewScroll.from === 'editor' ? previewScroll.line : undefined}
+          onScrollLine={(line) => setPreviewScroll({ source, line, from: 'preview' })}
+        />
       );
     }
-
-    // README / Markdown
-    if (ext === 'md') {
-      return (
-        <Svg>
-          <rect x="2" y="2" width="12" height="12" rx="2" fill="#ffcc66" />
-          <path d="M4 4h8M4 7h8M4 10h5" stroke="#3b2e1a" strokeWidth="1" />
-        </Svg>
-      );
+    if (!resume) {
+      return <Editor key={id} lines={[`# Loading…`, '', 'Fetching resume data…']} language="markdown" />;
     }
-
-    // JSON (generic)
-    if (ext === 'json') {
+    if (id === 'timeline') {
       return (
-        <Svg>
-          <rect x="1" y="2" width="14" height="12" rx="2" fill="#f29f3a" />
-          <text x="8" y="11" textAnchor="middle" fontSize="7" fontWeight="800" fill="#0b1220" fontFamily="Inter, system-ui, sans-serif">{`{}`}</text>
-        </Svg>
+        <Timeline
+          resume={resume}
+          sourceIndexes={sourceIndexes}
+          onOpen={(path) => {
+            const section = sectionForPath(path, sections);
+            if (section) openSection(toOpenTab(section.id, sections), group);
+          }}
+        />
       );
     }
-
-    // Default: show extension label
+    const hash = commitHash(id);
+    if (hash !== null) {
+      const row = gitLogRows.find((r) => r.commit.hash === hash);
+      const lines = row ? commitDocument(row.commit, resume.basics.name) : [`fatal: bad object ${hash}`];
+      return <Editor key={id} lines={lines} language="diff" />;
+    }
+    const section = sectionById(id);
     return (
-      <Svg>
-        <rect x="1" y="2" width="14" height="12" rx="2" fill="#7f8c98" />
-        <text
-          x="8"
-          y="11"
-          textAnchor="middle"
-          fontSize={ext.length > 3 ? 5.5 : 6.5}
-          fontWeight="800"
-          fill="#0b1220"
-          fontFamily="Inter, system-ui, sans-serif"
-        >
-          {ext.toUpperCase()}
-        </text>
-      </Svg>
+      <Editor
+        key={id}
+        lines={getSectionLines(id)}
+        language={section ? languageForPath(section.filePath) : 'plaintext'}
+        links={section ? sectionLinks(section, resume) : undefined}
+        reveal={reveal && reveal.id === id && reveal.group === group ? reveal : undefined}
+        onRevealed={() => setReveal(null)}
+        syncLine={previewScroll?.source === id && previewScroll.from === 'preview' ? previewScroll.line : undefined}
+        // Only worth reporting while the file's preview is showing somewhere.
+        onScrollLine={groups.some((g) => g.active === previewId(id)) ? (line) => setPreviewScroll({ source: id, line, from: 'editor' }) : undefined}
+        onCursorChange={(position) => {
+          setCursor(position && { ...position, id, group });
+          if (position) setSymbolLine({ id, group, line: position.line });
+        }}
+        onLinkContextMenu={(href, x, y) => setContextMenu({ x, y, type: 'link', href })}
+      />
     );
   }
 
-  function openSection(section: Section, target: 'left' | 'right' = 'left') {
-    if (target === 'left') {
-      setLeftOpenTabs((prev) => {
-        if (prev.some((t) => t.id === section.id)) return prev;
-        return [...prev, { id: section.id, title: section.title }];
-      });
-      setLeftActiveTabId(section.id);
+  /** Arrow keys, Home and End move along the tab strip, Delete closes the tab and Shift+F10 opens its context menu. */
+  function onTabKeyDown(e: React.KeyboardEvent<HTMLElement>, index: number, group: EditorGroup<SectionId>) {
+    const tabId = group.tabs[index];
+    if (e.key === 'ContextMenu' || (e.shiftKey && e.key === 'F10')) {
+      const rect = e.currentTarget.getBoundingClientRect();
+      setContextMenu({ x: rect.left, y: rect.bottom, type: 'tab', tabId, group: group.id });
+    } else if (e.key === 'Delete') {
+      focusTabInGroupRef.current = group.id;
+      closeTab(tabId, group.id);
     } else {
-      setRightOpenTabs((prev) => {
-        if (prev.some((t) => t.id === section.id)) return prev;
-        return [...prev, { id: section.id, title: section.title }];
-      });
-      setRightActiveTabId(section.id);
+      const target = { ArrowRight: index + 1, ArrowLeft: index - 1, Home: 0, End: group.tabs.length - 1 }[e.key];
+      if (target === undefined) return;
+      focusTabInGroupRef.current = group.id;
+      openSection(toOpenTab(group.tabs[(target + group.tabs.length) % group.tabs.length], sections), group.id);
     }
+    e.preventDefault();
   }
 
-  function closeTab(tabId: SectionId, group: 'left' | 'right' = 'left') {
-    const setOpen = group === 'left' ? setLeftOpenTabs : setRightOpenTabs;
-    const setActive = group === 'left' ? setLeftActiveTabId : setRightActiveTabId;
-    const activeId = group === 'left' ? leftActiveTabId : rightActiveTabId;
-    setOpen((prev) => {
-      const idx = prev.findIndex((t) => t.id === tabId);
-      if (idx === -1) return prev;
-      const next = prev.filter((t) => t.id !== tabId);
-      if (activeId === tabId) {
-        const fallback = next[idx - 1] || next[idx] || undefined;
-        setActive(fallback ? fallback.id : ((group === 'left' ? 'home' : next[0]?.id ?? null) as any));
-        if (!fallback) {
-          return group === 'left' ? [{ id: 'home', title: 'Home' }] : [];
+  /** Arrow keys along the split move the splitter; Home and End move it as far as it goes. */
+  function onSplitterKeyDown(e: React.KeyboardEvent<HTMLElement>, split: Extract<GridNode<SectionId>, { kind: 'split' }>, path: number[], index: number) {
+    const [back, forward] = split.orientation === 'horizontal' ? ['ArrowLeft', 'ArrowRight'] : ['ArrowUp', 'ArrowDown'];
+    const current = split.sizes[index];
+    const first = { [back]: current - SPLITTER_STEP, [forward]: current + SPLITTER_STEP, Home: 0, End: Infinity }[e.key];
+    if (first === undefined) return;
+    e.preventDefault();
+    setGrid((g) => resizeSplit(g, path, moveBoundary(split.sizes, index, first)));
+  }
+
+  function renderTab(tab: OpenTab, index: number, group: EditorGroup<SectionId>) {
+    const sec = sectionById(previewSource(tab.id) ?? tab.id);
+    const icon = sec ? sec.icon ?? sec.filePath : commitHash(tab.id) !== null ? 'commit.diff' : WORKBENCH_EDITORS[tab.id]?.icon;
+    const isActive = group.active === tab.id;
+    const dropHere = dropTarget?.group === group.id && dropTarget.index !== undefined;
+    // Inset bars mark the insertion point; the last tab also shows the "append" position.
+    const dropBefore = dropHere && dropTarget.index === index;
+    const dropAfter = dropHere && dropTarget.index === index + 1 && index === group.tabs.length - 1;
+    return (
+      <div
+        key={tab.id}
+        className={
+          'flex items-center gap-2 px-3 text-sm border-r border-divider select-none cursor-pointer outline-none focus-visible:ring-1 focus-visible:ring-inset focus-visible:ring-accent ' +
+          (isActive ? 'bg-editor text-fg border-b-2 border-b-accent' : 'text-fg-muted hover:bg-editor') +
+          (dragSource?.from === group.id && dragSource.id === tab.id ? ' opacity-50' : '')
         }
-      }
-      return next.length ? next : group === 'left' ? [{ id: 'home', title: 'Home' }] : [];
-    });
+        onClick={() => openSection(tab, group.id)}
+        onKeyDown={(e) => onTabKeyDown(e, index, group)}
+        onContextMenu={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          setContextMenu({ x: e.clientX, y: e.clientY, type: 'tab', tabId: tab.id, group: group.id });
+        }}
+        draggable
+        onDragStart={(e) => handleDragStart({ id: tab.id, from: group.id }, e)}
+        onDragOver={(e) => handleDragOver(tabDropTarget(group.id, index, e), e)}
+        onDrop={(e) => handleDrop(tabDropTarget(group.id, index, e), e)}
+        onDragEnd={handleDragEnd}
+        role="tab"
+        id={tabDomId(group.id, tab.id)}
+        aria-selected={isActive}
+        aria-controls={panelDomId(group.id)}
+        tabIndex={isActive ? 0 : -1}
+        data-tab-id={tab.id}
+        style={
+          dropBefore ? { boxShadow: 'inset 2px 0 0 var(--color-accent)' } : dropAfter ? { boxShadow: 'inset -2px 0 0 var(--color-accent)' } : undefined
+        }
+      >
+        {icon ? <FileIcon filePath={icon} size={16} /> : null}
+        <span>{tab.title}</span>
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            closeTab(tab.id, group.id);
+          }}
+          className={isActive ? 'text-fg-muted hover:text-fg' : 'text-fg-subtle hover:text-fg-secondary'}
+          // Reached with Delete on the tab instead, so the tab strip stays a single stop in the tab order.
+          tabIndex={-1}
+          aria-label={`Close ${tab.title}`}
+        >
+          ×
+        </button>
+      </div>
+    );
+  }
+
+  /** Covers an editor while something is dragged so it can be dropped into the group or, near an edge, into a split. */
+  function renderDropOverlay(group: GroupId) {
+    if (!dragSource) return null;
+    const zone = dropTarget?.group === group ? dropTarget.zone : undefined;
+    return (
+      <div
+        className="absolute inset-0 z-10"
+        onDragOver={(e) => handleDragOver(editorDropTarget(group, e), e)}
+        onDragLeave={() => dropTarget?.group === group && dropTarget.zone && setDropTarget(null)}
+        onDrop={(e) => handleDrop(editorDropTarget(group, e), e)}
+      >
+        {zone ? <div className={'absolute bg-accent/20 border border-accent/50 pointer-events-none transition-all ' + DROP_ZONE_CLASSES[zone]} /> : null}
+      </div>
+    );
   }
 
-  function Editor({ lines }: { lines: string[] }) {
-    const [hoveredLine, setHoveredLine] = useState<number | null>(null);
+  function renderBreadcrumbs(group: EditorGroup<SectionId>) {
+    const section = group.active ? sectionById(group.active) : undefined;
+    if (!section) return null;
+    // Before the user points at a line, the file's first symbol (e.g. the job it holds) is shown.
+    const line = symbolLine?.id === section.id && symbolLine.group === group.id ? symbolLine.line : 0;
     return (
-      <div className="h-full w-full min-w-0 overflow-y-auto overflow-x-hidden bg-[#1d2433] font-mono text-[13px]">
-        <div className="w-full">
-          {lines.map((line, idx) => {
-            const isHovered = hoveredLine === idx;
-            return (
+      <Breadcrumbs
+        filePath={section.filePath}
+        icon={section.icon}
+        path={symbolPathAt(sectionSymbols(section, resume), line)}
+        onReveal={(symbol) => revealLine(section.id, group.id, symbol.line)}
+      />
+    );
+  }
+
+  function renderGroup(group: EditorGroup<SectionId>) {
+    return (
+      <div className="h-full w-full flex flex-col min-w-0 min-h-0" onMouseDown={() => setActiveGroupId(group.id)}>
+        <div
+          role="tablist"
+          aria-label={`Editor Group ${groups.findIndex((g) => g.id === group.id) + 1}`}
+          className="h-9 shrink-0 border-b border-divider bg-workbench flex items-stretch overflow-x-auto"
+          onDragOver={(e) => handleDragOver({ group: group.id, index: group.tabs.length }, e)}
+          onDrop={(e) => handleDrop({ group: group.id, index: group.tabs.length }, e)}
+        >
+          {group.tabs.map((id, index) => renderTab(toOpenTab(id, sections), index, group))}
+        </div>
+        {renderBreadcrumbs(group)}
+        <div
+          id={panelDomId(group.id)}
+          role="tabpanel"
+          aria-labelledby={group.active ? tabDomId(group.id, group.active) : undefined}
+          className="relative flex-1 min-w-0 min-h-0 bg-editor"
+        >
+          {group.active ? renderEditorContent(group.active, group.id) : null}
+          {renderDropOverlay(group.id)}
+        </div>
+      </div>
+    );
+  }
+
+  /** Lays out a grid node; `path` is its position as child indices from the root, used to resize splits. */
+  function renderGridNode(node: GridNode<SectionId>, path: number[]): React.ReactNode {
+    if (node.kind === 'group') return renderGroup(node);
+    const horizontal = node.orientation === 'horizontal';
+    return (
+      <div className={'h-full w-full flex min-w-0 min-h-0 ' + (horizontal ? 'flex-row' : 'flex-col')}>
+        {node.children.map((child, i) => (
+          <Fragment key={child.kind === 'group' ? child.id : `split-${i}`}>
+            {i > 0 ? (
               <div
-                key={idx}
-                onMouseEnter={() => setHoveredLine(idx)}
-                onMouseLeave={() => setHoveredLine(null)}
+                role="separator"
+                aria-orientation={horizontal ? 'vertical' : 'horizontal'}
+                aria-label="Resize Editor Groups"
+                aria-valuenow={Math.round(node.sizes.slice(0, i).reduce((a, b) => a + b, 0) * 100)}
+                aria-valuemin={0}
+                aria-valuemax={100}
+                tabIndex={0}
+                onKeyDown={(e) => onSplitterKeyDown(e, node, path, i - 1)}
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  const rect = e.currentTarget.parentElement!.getBoundingClientRect();
+                  setResizing({ path, index: i - 1, orientation: node.orientation, rect, sizes: node.sizes });
+                }}
                 className={
-                  'grid grid-cols-[56px_1fr] items-start py-1 leading-5 border-b border-transparent ' +
-                  (isHovered ? 'bg-[#2f3b54] border-l-2 border-l-[#ffcc66]' : '')
+                  'shrink-0 border-divider hover:bg-fg/10 outline-none focus-visible:bg-accent/40 ' +
+                  (horizontal ? 'w-1.5 border-l cursor-col-resize' : 'h-1.5 border-t cursor-row-resize')
                 }
-              >
-                <div className={'select-none pr-3 pl-2 pt-0.5 text-right ' + (isHovered ? 'text-[#d7dce2]' : 'text-[#6679a4]')}>{idx + 1}</div>
-                <div className="whitespace-pre-wrap break-words px-3 text-[#d7dce2]">{line.length ? line : ' '}</div>
-              </div>
-            );
-          })}
-        </div>
+              />
+            ) : null}
+            <div className="min-w-0 min-h-0 overflow-hidden" style={{ flex: `${node.sizes[i]} 1 0` }}>
+              {renderGridNode(child, [...path, i])}
+            </div>
+          </Fragment>
+        ))}
       </div>
     );
   }
 
-  function getSectionLines(id: SectionId): string[] {
-    // Helper formatters for resume-backed rendering
-    const fmtDate = (d?: string | null) => (d ? d : 'Present');
-    const linesFromResume = (section: SectionId): string[] | null => {
-      if (!resume) return null;
-      switch (section) {
-        case 'home': {
-          const name = resume.basics?.name ?? 'Lalit Sharma';
-          const label = resume.basics?.label ?? 'Software Engineer';
-          const summary = resume.basics?.summary ?? '';
-          const out: string[] = [`# ${name}`, label, '', summary].filter(Boolean) as string[];
-          return out;
-        }
-        case 'about': {
-          const summary = resume.basics?.summary ?? '';
-          const out: string[] = ['# About', '', summary].filter(Boolean) as string[];
-          return out;
-        }
-        case 'experience': {
-          const out: string[] = ['# Work Experience', ''];
-          resume.work?.forEach((w) => {
-            out.push(`${w.position} — ${w.name} (${w.startDate} – ${fmtDate(w.endDate)})`);
-            (w.highlights || []).forEach((h) => out.push(`• ${h}`));
-            out.push('');
-          });
-          return out;
-        }
-        case 'projects': {
-          const out: string[] = ['# Projects', ''];
-          resume.projects?.forEach((p) => {
-            const tech = p.technologies && p.technologies.length ? ` — ${p.technologies.join(', ')}` : '';
-            const yr = p.year ? ` (${p.year})` : '';
-            out.push(`${p.name}${yr} — ${p.summary ?? ''}${tech}`.trim());
-          });
-          return out;
-        }
-        case 'skills': {
-          const out: string[] = ['# Skills', ''];
-          resume.skills?.forEach((s) => out.push(`${s.name}: ${s.keywords.join(', ')}`));
-          return out;
-        }
-        case 'education': {
-          const out: string[] = ['# Education', ''];
-          resume.education?.forEach((e) => {
-            const meta: string[] = [];
-            if (e.startDate || e.endDate) meta.push(`${e.startDate ?? ''} – ${e.endDate ?? ''}`.trim());
-            if (e.score) meta.push(e.score);
-            const metaStr = meta.length ? ` (${meta.join(' — ')})` : '';
-            out.push(`${e.studyType ? e.studyType + ' | ' : ''}${e.area ?? ''} — ${e.institution}${metaStr}`.trim());
-          });
-          return out;
-        }
-        case 'training': {
-          const out: string[] = ['# Training & Certifications', ''];
-          resume.certificates?.forEach((c) => {
-            const issuer = c.issuer ? ` — ${c.issuer}` : '';
-            const date = c.date ? ` (${c.date})` : '';
-            out.push(`${c.name}${issuer}${date}`);
-          });
-          return out;
-        }
-        case 'contact': {
-          const out: string[] = ['# Contact', ''];
-          const profiles = resume.basics?.profiles ?? [];
-          profiles.forEach((p) => {
-            const prefix = p.network;
-            const value = p.url ?? p.username ?? '';
-            out.push(`${prefix}: ${value}`);
-          });
-          return out;
-        }
-        default:
-          return null;
-      }
-    };
+  const groups = groupsOf(grid);
+  const focusedGroup = groups.find((g) => g.id === activeGroupId) ?? groups[0];
+  const focusedTabs = focusedGroup.tabs;
+  const focusedTabId = focusedGroup.active;
 
-    const resumeLines = linesFromResume(id);
-    if (resumeLines) return resumeLines;
-
-    // Fallback to static copy if resume not loaded
-    switch (id) {
-      case 'home':
-        return [
-          '# Lalit Sharma',
-          'Software Engineer',
-          '',
-          'Detail‑oriented, organized and meticulous. Works at fast pace to meet tight deadlines.',
-          'Enthusiastic team player ready to contribute to company success by achieving targets.',
-        ];
-      case 'about':
-        return [
-          '# About',
-          '',
-          'Full‑stack engineer focused on React, TypeScript, Node.js and modern tooling.',
-          'Experience leading migration of legacy UI to modern React with performance gains,',
-          'building Micro‑Frontend Architecture, and enforcing authentication/authorization and',
-          'accessibility (WCAG). Strong interest in DX, testing, and scalable UI systems.',
-        ];
-      case 'experience':
-        return [
-          '# Work Experience',
-          '',
-          'Software Engineer — Magic EdTech (07/2022 – Present)',
-          '• Led migration of old UI to modern React app with ~75% improvement in performance.',
-          '• Created and worked on Micro‑Frontend Architecture.',
-          '• Built complex React applications using ReactJS, TypeScript and StencilJS.',
-          '• Integrated authentication with live validation and encryption; used OAuth 2.0 for SocialSignOn.',
-          '• Built reusable web components in StencilJS; maintained a Storybook library.',
-          '• Implemented TailwindCSS styling and WCAG‑compliant accessible UI.',
-          '• Implemented responsive design and UI test cases across browsers.',
-          '• Collaborated with Backend and UI/UX teams to deliver features.',
-          '',
-          'Project Engineer — Wipro Limited (03/2021 – 06/2022)',
-          '• Delivered user‑facing features using ReactJS and reusable components.',
-          '• Built reusable web methods/solutions used across business domains.',
-          '• Designed responsive pages with HTML5, CSS3, JavaScript and ReactJS per W3C standards.',
-          '• Managed firewall over internal network; provisioned/denied access to servers/apps.',
-          '• Completed client requests under SLA.',
-        ];
-      case 'projects':
-        return [
-          '# Projects',
-          '',
-          'Comfy Sloth (2022) — E‑commerce store replica; product filters, categories, deep React integration.',
-          'Backroads (2021) — Travel‑based responsive site using HTML, CSS and Vanilla JS.',
-          'Static Website Hosting & Cross Account Access (2019) — Hosted on AWS with cross‑account access.',
-          'Floppy Dude (2018) — Game built from scratch in Java (Flappy‑bird inspired).',
-          'Box Moving Mechanism (2017) — Final year project in Mechanical Engineering.',
-        ];
-      case 'skills':
-        return [
-          '# Skills',
-          '',
-          'Web: HTML, CSS, JavaScript, TypeScript, TailwindCSS',
-          'Frontend: React JS, StencilJS, Redux, Hooks, Routers',
-          'Backend: Node.js',
-          'Core: Data Structures, OOPs',
-          'Languages: Java, C/C++',
-          'Cloud: AWS',
-        ];
-      case 'education':
-        return [
-          '# Education',
-          '',
-          'B.Tech | Computer Science — Ajay Kumar Garg Engineering College (08/2017 – 08/2020) — 69%',
-          'Diploma | Mechanical Engineering — Aryabhat Institute of Technology (08/2014 – 05/2017) — 64%',
-          'Secondary | Class X — Army Public School Dhaula Kuan (04/2013 – 03/2014) — CGPA 7.8',
-        ];
-      case 'training':
-        return [
-          '# Training & Certifications',
-          '',
-          'Full Stack Web Development — MERN Stack (07/2023)',
-          'JavaScript, HTML & CSS — Udemy (2020)',
-          'Amazon Web Services — Udemy (2019)',
-          'Core Java — CodeKamp (2018)',
-          'C and C++ Programming — Aptech (2017)',
-        ];
-      case 'contact':
-        return [
-          '# Contact',
-          '',
-          'Email:   lalitdev9013@gmail.com',
-          'Phone:   +91 8130417929',
-          'LinkedIn: linkedin.com/in/lalitbing',
-          'GitHub:  github.com/lalitbing',
-        ];
-      default:
-        return [];
+  function showSideView(view: SideView) {
+    if (view === sideView && !sidebarCollapsed) {
+      setSidebarCollapsed(true);
+      return;
     }
+    setSideView(view);
+    setSidebarCollapsed(false);
+  }
+
+  function toggleFolder(path: string) {
+    setCollapsedFolders((prev) => (prev.includes(path) ? prev.filter((p) => p !== path) : [...prev, path]));
+  }
+
+  function collapseAllFolders() {
+    setCollapsedFolders(folderPaths(buildTree(sections, (s) => s.filePath, COLLECTION_FOLDERS)));
+  }
+
+  /** Opens a section where it is already shown (preferring the focused group), then scrolls to and flashes the line. */
+  function revealSectionLine(id: SectionId, line: number) {
+    const section = sectionById(id);
+    if (!section) return;
+    const group = (focusedGroup.tabs.includes(id) ? focusedGroup : groups.find((g) => g.tabs.includes(id)) ?? focusedGroup).id;
+    openSection(section, group);
+    revealLine(id, group, line);
+  }
+
+  function revealLine(id: SectionId, group: GroupId, line: number) {
+    setReveal({ id, group, line, nonce: Date.now() });
+    setSymbolLine({ id, group, line });
   }
 
-  function renderEditorContent(id: SectionId) {
-    const lines = getSectionLines(id);
-    if (resumeLoading && id === 'home') {
-      return <Editor lines={[`# Loading…`, '', 'Fetching resume data…']} />;
+  const searchMatcher = buildMatcher(searchQuery, searchOptions);
+  const searchResults: FileSearchResult<SectionId>[] =
+    sideView === 'search' && searchMatcher.matcher
+      ? sections.flatMap((s) => {
+          const matches = searchLines(getSectionLines(s.id), searchMatcher.matcher!);
+          return matches.length ? [{ id: s.id, filePath: s.filePath, matches }] : [];
+        })
+      : [];
+
+  /** Shows the panel on the given tab, or hides it if that tab is already showing. */
+  function togglePanel(tab: 'problems' | 'terminal') {
+    if (panelOpen && panelTab === tab) {
+      setPanelOpen(false);
+      return;
     }
-    return <Editor lines={lines} />;
+    setPanelTab(tab);
+    setPanelOpen(true);
+  }
+
+  const shellContext: ShellContext = {
+    files: sections.map((s) => ({ path: s.filePath, lines: getSectionLines(s.id) })),
+    identity: resume
+      ? [`${resume.basics.name} — ${resume.basics.label}`, ...(resume.basics.location?.country ? [`Location: ${resume.basics.location.country}`] : [])]
+      : ['Lalit Sharma — Software Engineer'],
+    open: (path) => {
+      const section = sections.find((s) => s.filePath === path);
+      if (section) openSection(section);
+    },
+  };
+  const terminalPrompt = `${(resume?.basics.name ?? 'Lalit Sharma').trim().split(/\s+/)[0].toLowerCase()}@resume:~$ `;
+
+  function openSearch(prefix: string) {
+    setQuery(prefix);
+    setPaletteIndex(0);
+    searchInputRef.current?.focus();
+  }
+
+  const exportBaseName = (resume?.basics.name || 'resume').trim().toLowerCase().replace(/\s+/g, '-');
+  // Listed before the resume loads too, so keybindings for the export commands are recognised from the start.
+  const exportItems: ExportItem[] = [
+    { id: 'pdf', label: 'PDF (Print…)', run: () => window.print() },
+    { id: 'markdown', label: 'Markdown (.md)', run: () => resume && downloadFile(`${exportBaseName}.md`, resumeToMarkdown(resume), 'text/markdown') },
+    { id: 'text', label: 'Plain Text (.txt)', run: () => resume && downloadFile(`${exportBaseName}.txt`, toPlainText(resume), 'text/plain') },
+    {
+      id: 'json',
+      label: 'JSON Resume (.json)',
+      run: () => resume && downloadFile(`${exportBaseName}.json`, JSON.stringify(toJsonResume(resume), null, 2), 'application/json'),
+    },
+  ];
+
+  const commands: Command[] = [
+    {
+      id: 'workbench.action.showCommands',
+      title: 'Show All Commands',
+      run: () => openSearch('>'),
+    },
+    {
+      id: 'workbench.action.quickOpen',
+      title: 'Go to File...',
+      run: () => openSearch(''),
+    },
+    {
+      id: 'workbench.view.explorer',
+      category: 'View',
+      title: 'Show Explorer',
+      run: () => {
+        setSideView('explorer');
+        setSidebarCollapsed(false);
+      },
+    },
+    {
+      id: 'workbench.view.search',
+      category: 'View',
+      title: 'Show Search',
+      run: () => {
+        setSideView('search');
+        setSidebarCollapsed(false);
+      },
+    },
+    {
+      id: 'workbench.view.scm',
+      category: 'View',
+      title: 'Show Source Control',
+      run: () => {
+        setSideView('scm');
+        setSidebarCollapsed(false);
+      },
+    },
+    {
+      id: 'outline.focus',
+      category: 'View',
+      title: 'Show Outline',
+      run: () => {
+        setSideView('explorer');
+        setSidebarCollapsed(false);
+        setOutlineCollapsed(false);
+      },
+    },
+    {
+      id: 'workbench.files.action.collapseExplorerFolders',
+      category: 'File',
+      title: 'Collapse Folders in Explorer',
+      run: collapseAllFolders,
+    },
+    {
+      id: 'workbench.action.toggleSidebarVisibility',
+      category: 'View',
+      title: 'Toggle Primary Side Bar Visibility',
+      run: () => setSidebarCollapsed((v) => !v),
+    },
+    {
+      id: 'workbench.actions.view.problems',
+      category: 'View',
+      title: 'Toggle Problems',
+      run: () => togglePanel('problems'),
+    },
+    {
+      id: 'workbench.action.terminal.toggleTerminal',
+      category: 'View',
+      title: 'Toggle Terminal',
+      run: () => togglePanel('terminal'),
+    },
+    {
+      id: 'workbench.action.closeActiveEditor',
+      category: 'View',
+      title: 'Close Editor',
+      when: () => focusedTabId !== null,
+      run: () => focusedTabId && closeTab(focusedTabId, focusedGroup.id),
+    },
+    {
+      id: 'workbench.action.nextEditorInGroup',
+      category: 'View',
+      title: 'Open Next Editor in Group',
+      when: () => focusedTabs.length > 1,
+      run: () => cycleTab(1),
+    },
+    {
+      id: 'workbench.action.previousEditorInGroup',
+      category: 'View',
+      title: 'Open Previous Editor in Group',
+      when: () => focusedTabs.length > 1,
+      run: () => cycleTab(-1),
+    },
+    {
+      id: 'workbench.action.closeOtherEditors',
+      category: 'View',
+      title: 'Close Other Editors in Group',
+      when: () => focusedTabs.length > 1,
+      run: () => focusedTabId && closeOthers(focusedTabId, focusedGroup.id),
+    },
+    {
+      id: 'workbench.action.closeEditorsToTheRight',
+      category: 'View',
+      title: 'Close Editors to the Right in Group',
+      when: () => focusedTabId !== null && focusedTabs.indexOf(focusedTabId) < focusedTabs.length - 1,
+      run: () => focusedTabId && closeToRight(focusedTabId, focusedGroup.id),
+    },
+    {
+      id: 'workbench.action.closeAllEditors',
+      category: 'View',
+      title: 'Close All Editors',
+      run: closeAllTabs,
+    },
+    {
+      id: 'workbench.action.reopenClosedEditor',
+      category: 'View',
+      title: 'Reopen Closed Editor',
+      when: () => closedTabHistory.length > 0,
+      run: reopenClosedTab,
+    },
+    {
+      id: 'workbench.action.undoLayoutChange',
+      category: 'View',
+      title: 'Undo Layout Change',
+      when: () => layoutHistory.past.length > 0,
+      run: () => stepLayout(undoLayout),
+    },
+    {
+      id: 'workbench.action.redoLayoutChange',
+      category: 'View',
+      title: 'Redo Layout Change',
+      when: () => layoutHistory.future.length > 0,
+      run: () => stepLayout(redoLayout),
+    },
+    {
+      id: 'workbench.action.selectTheme.system',
+      category: 'Preferences',
+      title: 'Color Theme: Follow System',
+      when: () => themePreference !== 'system',
+      run: () => setThemePreference('system'),
+    },
+    ...THEMES.map(
+      (t): Command => ({
+        id: `workbench.action.selectTheme.${t.id}`,
+        category: 'Preferences',
+        title: `Color Theme: ${t.label}`,
+        when: () => themePreference !== t.id,
+        run: () => setThemePreference(t.id),
+      }),
+    ),
+    ...exportItems.map(
+      (item): Command => ({
+        id: `resume.export.${item.id}`,
+        category: 'Export',
+        title: `Resume as ${item.label}`,
+        when: () => resume !== null,
+        run: item.run,
+      }),
+    ),
+    {
+      id: 'resume.reload',
+      category: 'Resume',
+      title: 'Reload Resume Data',
+      when: () => !resumeLoading,
+      run: () => setReloadCount((n) => n + 1),
+    },
+    {
+      id: 'resume.showTimeline',
+      category: 'Resume',
+      title: 'Show Experience Timeline',
+      run: () => openSection(toOpenTab('timeline', sections)),
+    },
+    {
+      id: 'workbench.action.copyLayoutLink',
+      category: 'View',
+      title: 'Copy Link to Layout',
+      run: () => copyLink(window.location.href),
+    },
+    {
+      id: 'workbench.action.resetLayout',
+      category: 'View',
+      title: 'Reset Layout',
+      run: resetLayout,
+    },
+    {
+      id: 'workbench.action.splitEditor',
+      category: 'View',
+      title: 'Split Editor',
+      when: () => focusedTabId !== null,
+      // Like VS Code, splitting keeps the editor in its group and opens a copy beside it.
+      run: () => focusedTabId && splitTab(focusedTabId, 'right', focusedGroup.id, null),
+    },
+    ...GROUP_ORDINALS.map(
+      (ordinal, i): Command => ({
+        id: `workbench.action.focus${ordinal}EditorGroup`,
+        category: 'View',
+        title: `Focus ${ordinal} Editor Group`,
+        when: () => groups.length > i,
+        run: () => setActiveGroupId(groups[i].id),
+      }),
+    ),
+    {
+      id: 'markdown.showPreview',
+      category: 'Markdown',
+      title: 'Toggle Preview',
+      when: () => focusedTabId !== null && (isMarkdownSection(focusedTabId) || previewSource(focusedTabId) !== null),
+      run: () => focusedTabId && togglePreview(focusedTabId, focusedGroup.id),
+    },
+    {
+      id: 'markdown.showPreviewToSide',
+      category: 'Markdown',
+      title: 'Open Preview to the Side',
+      when: () => focusedTabId !== null && isMarkdownSection(focusedTabId),
+      run: () => focusedTabId && openPreviewToSide(focusedTabId, focusedGroup.id),
+    },
+    {
+      id: 'workbench.action.openGlobalKeybindings',
+      category: 'Preferences',
+      title: 'Open Keyboard Shortcuts',
+      run: () => openSection(toOpenTab('keyboard-shortcuts', sections)),
+    },
+    ...SPLIT_ITEMS.map(
+      (item): Command => ({
+        id: `workbench.action.splitEditor${item.direction[0].toUpperCase()}${item.direction.slice(1)}`,
+        category: 'View',
+        title: item.label.replace('Split', 'Split Editor'),
+        when: () => canSplit(focusedGroup.id),
+        run: () => focusedTabId && splitTab(focusedTabId, item.direction, focusedGroup.id),
+      }),
+    ),
+  ];
+
+  const userKeybindings = parseUserKeybindings(keybindingsSource, commands.map((c) => c.id));
+  const keybindings = resolveKeybindings(DEFAULT_KEYBINDINGS, userKeybindings.bindings);
+  const keybindingConflicts = findConflicts(keybindings);
+  /** The first key bound to a command, which is the one shown next to it. */
+  const keybindingFor = (commandId: string) => keybindings.find((b) => b.command === commandId)?.key;
+  const quickOpenKey = keybindingFor('workbench.action.quickOpen');
+
+  function saveKeybindings(source: string) {
+    setKeybindingsSource(source);
+    saveUserKeybindings(source);
+  }
+
+  useEffect(() => {
+    commandsRef.current = commands;
+    keybindingsRef.current = keybindings;
+    applyLayoutRef.current = applyLayout;
+  });
+
+  const commandMode = query.startsWith('>');
+  const paletteItems = commandMode
+    ? commands
+        .filter(isEnabled)
+        .flatMap((command) => {
+          const match = fuzzyMatch(query.slice(1), commandLabel(command));
+          return match ? [{ command, match }] : [];
+        })
+        .sort((a, b) => b.match.score - a.match.score)
+    : [];
+
+  const activeSection = focusedTabId ? sectionById(focusedTabId) : undefined;
+  const statusBarContext: StatusBarContext = {
+    resume,
+    loading: resumeLoading,
+    source: resumeSource,
+    problems,
+    filePath: activeSection?.filePath ?? null,
+    language: activeSection ? languageForPath(activeSection.filePath) : focusedTabId && commitHash(focusedTabId) !== null ? 'diff' : null,
+    cursor: cursor && cursor.group === focusedGroup.id && cursor.id === focusedTabId ? cursor : null,
+    shortcut: (commandId) => {
+      const key = keybindingFor(commandId);
+      return key && formatKeybinding(key);
+    },
+  };
+
+  const outlineSymbols = activeSection ? sectionSymbols(activeSection, resume) : [];
+  const outlineLine = activeSection && symbolLine?.id === activeSection.id && symbolLine.group === focusedGroup.id ? symbolLine.line : null;
+
+  function revealSymbol(symbol: DocumentSymbol) {
+    if (activeSection) revealLine(activeSection.id, focusedGroup.id, symbol.line);
+  }
+
+  const sourceNotice =
+    resumeSource?.kind === 'cache'
+      ? `The resume source couldn't be reached, so you're seeing the copy saved ${new Date(resumeSource.savedAt).toLocaleString()}. It may be out of date.`
+      : resumeSource?.kind === 'bundled'
+        ? "The resume source couldn't be reached, so you're seeing the copy this site was built with. It may be out of date."
+        : null;
+
+  function runCommandById(id: string) {
+    const command = commands.find((c) => c.id === id);
+    if (command && isEnabled(command)) command.run();
+  }
+
+  function runCommand(command: Command) {
+    setQuery('');
+    searchInputRef.current?.blur();
+    command.run();
   }
 
   return (
-    <div className="h-full bg-[#171c28] text-[#d7dce2] font-[system-ui] flex flex-col">
-      <div className="h-10 border-b border-[#2f3b54] grid grid-cols-[1fr_auto_1fr] items-center px-3 gap-3 bg-[#171c28]">
-        <div className="flex items-center gap-2">
-          <button
-            onClick={() => setSidebarCollapsed((v) => !v)}
-            aria-label="Toggle Explorer"
-            className="group h-7 w-7 grid place-items-center rounded bg-transparent hover:bg-[#2f3b54] transition-colors"
-          >
-            <svg
-              className="row-start-1 col-start-1 transition-opacity duration-150 opacity-100 group-hover:opacity-0 text-[#d7dce2]"
-              width="24"
-              height="24"
-              viewBox="0 0 24 24"
-              aria-hidden
-            >
-              <rect x="3" y="5" width="18" height="14" rx="2.5" fill="none" stroke="currentColor" strokeWidth="1.6" />
-              <path d="M9 5v14" stroke="currentColor" strokeWidth="1.6" strokeLinecap="round" />
-            </svg>
-            <svg
-              className={`row-start-1 col-start-1 transition-opacity duration-150 opacity-0 group-hover:opacity-100 text-[#d7dce2] ${
-                sidebarCollapsed ? '' : '-scale-x-100'
-              }`}
-              width="24"
-              height="24"
-              viewBox="0 0 24 24"
-              fill="currentColor"
-              xmlns="http://www.w3.org/2000/svg"
-              aria-hidden
+    <>
+      <div className="h-full bg-workbench text-fg font-[system-ui] flex flex-col print:hidden">
+        <div className="h-10 border-b border-divider grid grid-cols-[1fr_auto_1fr] items-center px-3 gap-3 bg-workbench">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setSidebarCollapsed((v) => !v)}
+              aria-label="Toggle Explorer"
+              className="group h-7 w-7 grid place-items-center rounded bg-transparent hover:bg-selection transition-colors"
             >
-              <path d="M16.5 3C16.7761 3 17 3.22386 17 3.5V16.5L16.9902 16.6006C16.9437 16.8286 16.7417 17 16.5 17C16.2583 17 16.0563 16.8286 16.0098 16.6006L16 16.5V3.5C16 3.22386 16.2239 3 16.5 3ZM8.12793 5.16504C8.28958 4.98547 8.5524 4.95058 8.75293 5.06836L8.83496 5.12793L13.835 9.62793C13.9403 9.72275 14 9.85828 14 10C14 10.1063 13.9667 10.2093 13.9053 10.2939L13.835 10.3721L8.83496 14.8721C8.62972 15.0568 8.31267 15.0402 8.12793 14.835C7.94322 14.6297 7.95984 14.3127 8.16504 14.1279L12.1963 10.5H3.5C3.22386 10.5 3 10.2761 3 10C3 9.72386 3.22386 9.5 3.5 9.5H12.1963L8.16504 5.87207L8.09766 5.79688C7.95931 5.60979 7.96622 5.34471 8.12793 5.16504Z"></path>
-            </svg>
-          </button>
-          <div className="text-[#d7dce2] text-sm font-medium">
-            <span className="sm:hidden">{(resume?.basics?.name ?? 'Lalit Sharma').trim().split(/\s+/)[0]}</span>
-            <span className="hidden sm:inline">{resume?.basics?.name ?? 'Lalit Sharma'}</span>
-          </div>
-        </div>
-        <div className="w-full max-w-lg justify-self-center relative">
-          <div className="flex items-center gap-2 bg-[#2f3b54] rounded px-2 py-1 focus-within:ring-1 focus-within:ring-[#ffcc66]/70">
-            <span className="text-[#8695b7] text-xs">⌘K</span>
-            <input
-              ref={searchInputRef}
-              value={query}
-              onChange={(e) => setQuery(e.target.value)}
-              onKeyDown={(e) => {
-                if (e.key === 'Escape') setQuery('');
-                if (e.key === 'Enter') {
-                  e.preventDefault();
-                  const first = filteredSections[0];
-                  if (first) {
-                    openSection(first);
-                    setQuery('');
-                  }
-                }
-              }}
-              placeholder="Search files..."
-              className="bg-transparent outline-none text-sm w-full placeholder:text-[#8695b7] text-[#d7dce2]"
-            />
-          </div>
-          {query.trim() && (
-            <div className="absolute left-0 right-0 mt-1 z-50 bg-[#1d2433] border border-[#2f3b54] rounded shadow-lg">
-              <ul className="max-h-72 overflow-auto py-1">
-                {filteredSections.length ? (
-                  filteredSections.map((s) => (
-                    <li key={s.id}>
-                      <button
-                        onClick={() => {
-                          openSection(s);
-                          setQuery('');
-                        }}
-                        className="w-full text-left px-3 py-2 hover:bg-[#2f3b54] text-[#d7dce2] flex items-center gap-2"
-                      >
-                        <FileIcon filePath={s.filePath} size={16} />
-                        <div className="flex flex-col leading-tight">
-                          <div className="text-[13px]">{s.filePath}</div>
-                          <div className="text-[11px] text-[#8695b7]">{s.title}</div>
-                        </div>
-                      </button>
-                    </li>
-                  ))
-                ) : (
-                  <li className="px-3 py-2 text-[#8695b7] text-sm">No results</li>
-                )}
-              </ul>
+              <svg
+                className="row-start-1 col-start-1 transition-opacity duration-150 opacity-100 group-hover:opacity-0 text-fg"
+                width="24"
+                height="24"
+                viewBox="0 0 24 24"
+                aria-hidden
+              >
+                <rect x="3" y="5" width="18" height="14" rx="2.5" fill="none" stroke="currentColor" strokeWidth="1.6" />
+                <path d="M9 5v14" stroke="currentColor" strokeWidth="1.6" strokeLinecap="round" />
+              </svg>
+              <svg
+                className={`row-start-1 col-start-1 transition-opacity duration-150 opacity-0 group-hover:opacity-100 text-fg ${
+                  sidebarCollapsed ? '' : '-scale-x-100'
+                }`}
+                width="24"
+                height="24"
+                viewBox="0 0 24 24"
+                fill="currentColor"
+                xmlns="http://www.w3.org/2000/svg"
+                aria-hidden
+              >
+                <path d="M16.5 3C16.7761 3 17 3.22386 17 3.5V16.5L16.9902 16.6006C16.9437 16.8286 16.7417 17 16.5 17C16.2583 17 16.0563 16.8286 16.0098 16.6006L16 16.5V3.5C16 3.22386 16.2239 3 16.5 3ZM8.12793 5.16504C8.28958 4.98547 8.5524 4.95058 8.75293 5.06836L8.83496 5.12793L13.835 9.62793C13.9403 9.72275 14 9.85828 14 10C14 10.1063 13.9667 10.2093 13.9053 10.2939L13.835 10.3721L8.83496 14.8721C8.62972 15.0568 8.31267 15.0402 8.12793 14.835C7.94322 14.6297 7.95984 14.3127 8.16504 14.1279L12.1963 10.5H3.5C3.22386 10.5 3 10.2761 3 10C3 9.72386 3.22386 9.5 3.5 9.5H12.1963L8.16504 5.87207L8.09766 5.79688C7.95931 5.60979 7.96622 5.34471 8.12793 5.16504Z"></path>
+              </svg>
+            </button>
+            <div className="text-fg text-sm font-medium">
+              <span className="sm:hidden">{(resume?.basics?.name ?? 'Lalit Sharma').trim().split(/\s+/)[0]}</span>
+              <span className="hidden sm:inline">{resume?.basics?.name ?? 'Lalit Sharma'}</span>
             </div>
-          )}
-        </div>
-        <div />
-      </div>
-
-      <div className="flex-1 flex" ref={contentRef}>
-        {!sidebarCollapsed && (
-          <aside className="w-36 sm:w-48 md:w-56 lg:w-64 border-r border-[#2f3b54] bg-[#171c28]">
-            <div className="px-3 py-2 text-xs uppercase tracking-wide text-[#8695b7]">Explorer</div>
-            <ul className="px-2 pb-4 space-y-1">
-              {SECTIONS.map((s) => (
-                <li key={s.id}>
-                  <button
-                    onClick={() => openSection(s)}
-                    className={
-                      'w-full text-left flex items-center gap-2 px-2 py-1 rounded ' +
-                      (leftActiveTabId === s.id || rightActiveTabId === s.id ? 'bg-[#2f3b54] text-[#d7dce2]' : 'hover:bg-[#1d2433] text-[#a2aabc]')
-                    }
-                  >
-                    <FileIcon filePath={s.filePath} className="shrink-0" size={18} />
-                    <span className={(leftActiveTabId === s.id || rightActiveTabId === s.id ? 'text-[#d7dce2]' : 'text-[#a2aabc]') + ' truncate max-w-[9rem] sm:max-w-[11rem] md:max-w-[13rem]'}>{s.filePath}</span>
-                  </button>
-                </li>
-              ))}
-            </ul>
-          </aside>
-        )}
-
-        <div className="flex-1 flex overflow-hidden">
-          <div className="flex flex-col border-r border-[#2f3b54]" style={{ width: rightOpenTabs.length ? `${splitRatio * 100}%` : '100%' }}>
-            <div className="h-9 border-b border-[#2f3b54] bg-[#171c28] flex items-stretch overflow-x-auto">
-              {leftOpenTabs.map((tab, index) => {
-                const sec = SECTIONS.find((s) => s.id === tab.id);
-                return (
-                  <div
-                    key={tab.id}
-                    className={
-                      'flex items-center gap-2 px-3 text-sm border-r border-[#2f3b54] select-none cursor-pointer ' +
-                      (leftActiveTabId === tab.id ? 'bg-[#1d2433] text-[#d7dce2] border-b-2 border-b-[#ffcc66]' : 'text-[#8695b7] hover:bg-[#1d2433]')
+          </div>
+          <div className="w-full max-w-lg justify-self-center relative">
+            <div className="flex items-center gap-2 bg-input rounded px-2 py-1 focus-within:ring-1 focus-within:ring-accent/70">
+              {quickOpenKey ? <span className="text-fg-muted text-xs">{formatKeybinding(quickOpenKey)}</span> : null}
+              <input
+                ref={searchInputRef}
+                value={query}
+                onChange={(e) => {
+                  setQuery(e.target.value);
+                  setPaletteIndex(0);
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === 'Escape') setQuery('');
+                  if (commandMode) {
+                    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                      e.preventDefault();
+                      const step = e.key === 'ArrowDown' ? 1 : -1;
+                      setPaletteIndex((i) => (paletteItems.length ? (i + step + paletteItems.length) % paletteItems.length : 0));
                     }
-                    onClick={() => setLeftActiveTabId(tab.id)}
-                    onContextMenu={(e) => {
+                    if (e.key === 'Enter') {
                       e.preventDefault();
-                      e.stopPropagation();
-                      setContextMenu({ x: e.clientX, y: e.clientY, type: 'tab', tabId: tab.id, group: 'left' });
-                    }}
-                    draggable
-                    onDragStart={(e) => handleTabDragStart(index, e)}
-                    onDragOver={(e) => handleTabDragOver(index, e)}
-                    onDrop={(e) => handleTabDrop(index, e)}
-                    onDragEnd={handleTabDragEnd}
-                    role="button"
-                    data-tab-id={tab.id}
-                    style={dragOverIndex === index && dragIndex !== null && dragIndex !== index ? { boxShadow: 'inset -2px 0 0 #ffcc66' } : undefined}
-                  >
-                    {sec ? <FileIcon filePath={sec.filePath} size={16} /> : null}
-                    <span>{tab.title}</span>
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        closeTab(tab.id, 'left');
-                      }}
-                      className={leftActiveTabId === tab.id ? 'text-[#8695b7] hover:text-[#d7dce2]' : 'text-[#6679a4] hover:text-[#a2aabc]'}
-                      aria-label={`Close ${tab.title}`}
-                    >
-                      ×
-                    </button>
-                  </div>
-                );
-              })}
+                      const selected = paletteItems[paletteIndex];
+                      if (selected) runCommand(selected.command);
+                    }
+                    return;
+                  }
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    const first = filteredSections[0];
+                    if (first) {
+                      openSection(first);
+                      setQuery('');
+                    }
+                  }
+                }}
+                placeholder="Search files... (type > for commands)"
+                aria-label="Search files, or type > for commands"
+                className="bg-transparent outline-none text-sm w-full placeholder:text-fg-muted text-fg"
+              />
             </div>
-            <div className="flex-1 min-w-0 bg-[#1d2433]">{leftActiveTabId ? renderEditorContent(leftActiveTabId) : null}</div>
+            {commandMode && (
+              <div className="absolute left-0 right-0 mt-1 z-50 bg-editor border border-divider rounded shadow-lg">
+                <CommandPalette
+                  items={paletteItems}
+                  selectedIndex={paletteIndex}
+                  onRun={runCommand}
+                  onHover={setPaletteIndex}
+                  keybindingFor={keybindingFor}
+                />
+              </div>
+            )}
+            {query.trim() && !commandMode && (
+              <div className="absolute left-0 right-0 mt-1 z-50 bg-editor border border-divider rounded shadow-lg">
+                <ul className="max-h-72 overflow-auto py-1">
+                  {filteredSections.length ? (
+                    filteredSections.map((s) => (
+                      <li key={s.id}>
+                        <button
+                          onClick={() => {
+                            openSection(s);
+                            setQuery('');
+                          }}
+                          className="w-full text-left px-3 py-2 hover:bg-selection text-fg flex items-center gap-2"
+                        >
+                          <FileIcon filePath={s.icon ?? s.filePath} size={16} />
+                          <div className="flex flex-col leading-tight">
+                            <div className="text-[13px]">{s.filePath}</div>
+                            <div className="text-[11px] text-fg-muted">{s.title}</div>
+                          </div>
+                        </button>
+                      </li>
+                    ))
+                  ) : (
+                    <li className="px-3 py-2 text-fg-muted text-sm">No results</li>
+                  )}
+                </ul>
+              </div>
+            )}
           </div>
+          <div className="justify-self-end flex items-center gap-1">
+            <ExportMenu items={exportItems} disabled={!resume} />
+            <ThemePicker themes={THEMES} preference={themePreference} onChange={setThemePreference} />
+          </div>
+        </div>
 
-          {rightOpenTabs.length ? (
-            <div
-              onMouseDown={(e) => {
-                e.preventDefault();
-                setIsResizing(true);
-                if (contentRef.current) {
-                  const rect = contentRef.current.getBoundingClientRect();
-                  const currentSplitterX = rect.left + splitRatio * rect.width;
-                  setDragOffsetPx(e.clientX - currentSplitterX);
-                }
-              }}
-              className="w-1.5 cursor-col-resize bg-transparent hover:bg-white/10"
-            />
-          ) : null}
-
-          <div
-            className="flex flex-col"
-            style={{ width: rightOpenTabs.length ? `${(1 - splitRatio) * 100}%` : 0, display: rightOpenTabs.length ? 'flex' : 'none' }}
-          >
-            <div className="h-9 border-b border-[#2f3b54] bg-[#171c28] flex items-stretch overflow-x-auto">
-              {rightOpenTabs.map((tab) => {
-                const sec = SECTIONS.find((s) => s.id === tab.id);
-                return (
-                  <div
-                    key={tab.id}
-                    className={
-                      'flex items-center gap-2 px-3 text-sm border-r border-[#2f3b54] select-none cursor-pointer ' +
-                      (rightActiveTabId === tab.id
-                        ? 'bg-[#1d2433] text-[#d7dce2] border-b-2 border-b-[#ffcc66]'
-                        : 'text-[#8695b7] hover:bg-[#1d2433]')
-                    }
-                    onClick={() => setRightActiveTabId(tab.id)}
-                    onContextMenu={(e) => {
-                      e.preventDefault();
-                      e.stopPropagation();
-                      setContextMenu({ x: e.clientX, y: e.clientY, type: 'tab', tabId: tab.id, group: 'right' });
-                    }}
-                    role="button"
-                    data-tab-id={tab.id}
-                  >
-                    {sec ? <FileIcon filePath={sec.filePath} size={16} /> : null}
-                    <span>{tab.title}</span>
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        closeTab(tab.id, 'right');
-                      }}
-                      className={rightActiveTabId === tab.id ? 'text-[#8695b7] hover:text-[#d7dce2]' : 'text-[#6679a4] hover:text-[#a2aabc]'}
-                      aria-label={`Close ${tab.title}`}
-                    >
-                      ×
-                    </button>
+        <div className="flex-1 min-h-0 flex">
+          <ActivityBar active={sidebarCollapsed ? null : sideView} onSelect={showSideView} />
+          {!sidebarCollapsed && (
+            <aside className="w-36 sm:w-48 md:w-56 lg:w-64 border-r border-divider bg-workbench flex flex-col min-h-0" aria-label="Primary Side Bar">
+              {sideView === 'search' ? (
+                <SearchView
+                  query={searchQuery}
+                  onQueryChange={setSearchQuery}
+                  options={searchOptions}
+                  onOptionsChange={setSearchOptions}
+                  results={searchResults}
+                  error={searchMatcher.error}
+                  onOpen={revealSectionLine}
+                />
+              ) : sideView === 'scm' ? (
+                <SourceControlView
+                  rows={gitLogRows}
+                  activeHash={focusedTabId ? commitHash(focusedTabId) ?? undefined : undefined}
+                  onOpen={(hash) => openSection(toOpenTab(commitId(hash), sections))}
+                />
+              ) : (
+                <>
+                  <div className="flex-1 min-h-0 overflow-y-auto">
+                    <ExplorerTree
+                      sections={sections}
+                      folders={COLLECTION_FOLDERS}
+                      collapsed={collapsedFolders}
+                      activeIds={groups.flatMap((g) => (g.active ? [g.active] : []))}
+                      onOpen={(s) => openSection(s)}
+                      onToggleFolder={toggleFolder}
+                      onCollapseAll={collapseAllFolders}
+                      onDragFile={(s, e) => handleDragStart({ id: s.id, from: null }, e)}
+                      onDragEnd={handleDragEnd}
+                    />
                   </div>
-                );
-              })}
-            </div>
-            <div className="flex-1 min-w-0 bg-[#1d2433]">{rightActiveTabId ? renderEditorContent(rightActiveTabId) : null}</div>
-          </div>
+                  <OutlineView
+                    filePath={activeSection?.filePath ?? null}
+                    symbols={outlineSymbols}
+                    line={outlineLine}
+                    collapsed={outlineCollapsed}
+                    onToggle={() => setOutlineCollapsed((c) => !c)}
+                    onReveal={revealSymbol}
+                  />
+                </>
+              )}
+            </aside>
+          )}
+
+          <main className="flex-1 min-w-0 overflow-hidden" aria-label="Editors">
+            {renderGridNode(grid, [])}
+          </main>
         </div>
-      </div>
 
-      <footer className="h-9 border-t border-[#2f3b54] bg-[#171c28] flex items-center justify-center text-[12px] text-[#8695b7] select-none">
-        <span className="mr-1">Developed with</span>
-        <svg width="14" height="14" viewBox="0 0 24 24" aria-hidden className="mx-1">
-          <path
-            d="M12.1 21.35l-1.1-.98C5.14 15.36 2 12.5 2 8.9 2 6.1 4.2 4 6.9 4c1.6 0 3.17.76 4.1 1.96C12.93 4.76 14.5 4 16.1 4 18.8 4 21 6.1 21 8.9c0 3.6-3.14 6.46-8.99 11.47l-1.91 1.68z"
-            fill="#ef6b73"
-          />
-        </svg>
-        <span className="mr-1">by Lalit. Inspired by most used Code Editor.</span>
-      </footer>
-      {contextMenu && contextMenu.type === 'tab' && (
-        <TabContextMenu
-          x={contextMenu.x}
-          y={contextMenu.y}
-          onClose={() => setContextMenu(null)}
-          onCloseTab={() => closeTab(contextMenu.tabId, contextMenu.group)}
-          onCloseOthers={() => closeOthers(contextMenu.tabId)}
-          onCloseRight={() => closeToRight(contextMenu.tabId)}
-          onCloseAll={closeAllTabs}
-          onSplitLeft={() => splitTab(contextMenu.tabId, 'left', contextMenu.group)}
-          onSplitRight={() => splitTab(contextMenu.tabId, 'right', contextMenu.group)}
-          showSplit={(contextMenu.group === 'left' ? leftOpenTabs.length : rightOpenTabs.length) >= 2}
+        <BottomPanel
+          tabs={[
+            {
+              id: 'problems',
+              label: 'Problems',
+              badge: problems.length,
+              content: (
+                <ProblemsPanel
+                  problems={problems}
+                  fileFor={(p) => sectionForProblem(p, sections)?.filePath}
+                  onSelect={(p) => {
+                    const section = sectionForProblem(p, sections);
+                    if (section) openSection(section);
+                  }}
+                />
+              ),
+            },
+            {
+              id: 'terminal',
+              label: 'Terminal',
+              content: <Terminal context={shellContext} prompt={terminalPrompt} active={panelOpen && panelTab === 'terminal'} />,
+            },
+          ]}
+          active={panelTab}
+          open={panelOpen}
+          height={panelHeight}
+          onSelect={setPanelTab}
+          onClose={() => setPanelOpen(false)}
+          onResize={setPanelHeight}
         />
-      )}
-    </div>
+
+        <StatusBar items={STATUS_BAR_ITEMS} context={statusBarContext} onRun={runCommandById} />
+        {notice ? (
+          <Toast message={notice.message} severity={notice.severity} onDismiss={() => setNotice(null)} />
+        ) : sourceNotice && !sourceNoticeDismissed && !resumeLoading ? (
+          <Toast
+            message={sourceNotice}
+            severity="warning"
+            actions={[{ label: 'Retry', run: () => setReloadCount((n) => n + 1) }]}
+            onDismiss={() => setSourceNoticeDismissed(true)}
+          />
+        ) : null}
+        <div role="status" aria-live="polite" className="sr-only">
+          {announcement}
+        </div>
+        {contextMenu && contextMenu.type === 'tab' && (
+          <ContextMenu
+            x={contextMenu.x}
+            y={contextMenu.y}
+            label={`${toOpenTab(contextMenu.tabId, sections).title} actions`}
+            items={tabMenuItems(contextMenu.tabId, contextMenu.group)}
+            onClose={() => setContextMenu(null)}
+          />
+        )}
+        {contextMenu && contextMenu.type === 'link' && (
+          <ContextMenu
+            x={contextMenu.x}
+            y={contextMenu.y}
+            label="Link actions"
+            items={[
+              { id: 'open', label: 'Open Link', run: () => openLink(contextMenu.href) },
+              { id: 'copy', label: 'Copy Link', run: () => copyLink(contextMenu.href) },
+            ]}
+            onClose={() => setContextMenu(null)}
+          />
+        )}
+      </div>
+      {resume ? <PrintView resume={resume} /> : null}
+    </>
   );
 }
 
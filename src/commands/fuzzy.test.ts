@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { fuzzyMatch } from './fuzzy';
+
+describe('fuzzyMatch', () => {
+  it('matches the query as a subsequence, ignoring case and spaces', () => {
+    expect(fuzzyMatch('s R', 'Split Right')?.indices).toEqual([0, 6]);
+    expect(fuzzyMatch('rs', 'Split Right')).toBeNull();
+  });
+
+  it('matches everything with an empty query', () => {
+    expect(fuzzyMatch('  ', 'Split Right')).toEqual({ score: 0, indices: [] });
+  });
+
+  it('ranks word starts and runs above scattered letters', () => {
+    const split = fuzzyMatch('splr', 'View: Split Right')!;
+    const scattered = fuzzyMatch('splr', 'Close Panel to the Right')!;
+    expect(split.score).toBeGreaterThan(scattered.score);
+  });
+});
@@ -0,0 +1,30 @@
+export type FuzzyMatch = {
+  score: number;
+  /** Indices into the candidate text that matched the query, for highlighting. */
+  indices: number[];
+};
+
+/**
+ * Subsequence match in the style of VS Code's quick pick: every query
+ * character must appear in order. Consecutive runs and word starts score
+ * higher so "splr" ranks "Split Right" above "Close to the Right".
+ */
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const q = query.toLowerCase().replace(/\s+/g, '');
+  if (!q) return { score: 0, indices: [] };
+  const t = text.toLowerCase();
+  const indices: number[] = [];
+  let score = 0;
+  let from = 0;
+  for (const ch of q) {
+    const idx = t.indexOf(ch, from);
+    if (idx === -1) return null;
+    const prev = indices[indices.length - 1];
+    if (prev !== undefined && idx === prev + 1) score += 5;
+    if (idx === 0 || /[\s:._\-/]/.test(t[idx - 1])) score += 3;
+    score -= Math.min(idx - from, 5) * 0.1;
+    indices.push(idx);
+    from = idx + 1;
+  }
+  return { score, indices };
+}
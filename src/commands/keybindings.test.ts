@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { chordId, commandForEvent, findConflicts, matchesKeybinding, parseUserKeybindings, resolveKeybindings, type Keybinding } from './keybindings';
+import type { Command } from './registry';
+
+const COMMANDS = ['workbench.action.splitEditor', 'workbench.action.closeActiveEditor'];
+
+const keyEvent = (key: string, modifiers: Partial<Pick<KeyboardEvent, 'ctrlKey' | 'metaKey' | 'shiftKey' | 'altKey'>> = {}) =>
+  ({ key, ctrlKey: false, metaKey: false, shiftKey: false, altKey: false, ...modifiers }) as KeyboardEvent;
+
+const command = (id: string, when?: () => boolean): Command => ({ id, title: id, when, run: () => {} });
+
+describe('parseUserKeybindings', () => {
+  it('reads entries around whole-line comments', () => {
+    const text = ['// Overrides', '[', '  // split', '  { "key": "Ctrl+Shift+\\\\", "command": "workbench.action.splitEditor" }', ']'].join('\n');
+    expect(parseUserKeybindings(text, COMMANDS)).toEqual({ bindings: [{ key: 'Ctrl+Shift+\\', command: 'workbench.action.splitEditor' }], errors: [] });
+  });
+
+  it('accepts the plus key, alone or after modifiers', () => {
+    const text = JSON.stringify([
+      { key: 'Ctrl++', command: 'workbench.action.splitEditor' },
+      { key: '+', command: 'workbench.action.closeActiveEditor' },
+    ]);
+    expect(parseUserKeybindings(text, COMMANDS).errors).toEqual([]);
+  });
+
+  it('rejects a binding that ends in a separator with no key', () => {
+    const text = JSON.stringify([
+      { key: 'Ctrl+', command: 'workbench.action.splitEditor' },
+      { key: 'Ctrl++Shift', command: 'workbench.action.splitEditor' },
+    ]);
+    expect(parseUserKeybindings(text, COMMANDS)).toEqual({
+      bindings: [],
+      errors: ['Entry 1: "Ctrl+" is not a valid key.', 'Entry 2: "Ctrl++Shift" is not a valid key.'],
+    });
+  });
+
+  it('reports unknown modifiers and commands', () => {
+    const text = JSON.stringify([
+      { key: 'Hyper+K', command: 'workbench.action.splitEditor' },
+      { key: 'Ctrl+K', command: 'workbench.action.fly' },
+    ]);
+    expect(parseUserKeybindings(text, COMMANDS).errors).toEqual(['Entry 1: "Hyper+K" is not a valid key.', "Entry 2: unknown command 'workbench.action.fly'."]);
+  });
+
+  it('lets a removal leave out the key', () => {
+    const text = JSON.stringify([{ command: '-workbench.action.closeActiveEditor' }]);
+    expect(parseUserKeybindings(text, COMMANDS).bindings).toEqual([{ key: '', command: '-workbench.action.closeActiveEditor' }]);
+  });
+
+  it('reports text that is not a JSON array', () => {
+    expect(parseUserKeybindings('{}', COMMANDS).errors).toEqual(['keybindings.json must contain an array of key bindings.']);
+    expect(parseUserKeybindings('[', COMMANDS).errors[0]).toMatch(/^keybindings\.json is not valid JSON/);
+  });
+});
+
+describe('matchesKeybinding', () => {
+  it('matches the exact modifiers, ignoring the case of the key', () => {
+    expect(matchesKeybinding(keyEvent('W', { ctrlKey: true, shiftKey: true }), 'Ctrl+Shift+w')).toBe(true);
+    expect(matchesKeybinding(keyEvent('w', { ctrlKey: true }), 'Ctrl+Shift+W')).toBe(false);
+  });
+
+  it('matches the plus key', () => {
+    expect(matchesKeybinding(keyEvent('+', { ctrlKey: true }), 'Ctrl++')).toBe(true);
+    expect(matchesKeybinding(keyEvent('+', { ctrlKey: true }), 'Ctrl+')).toBe(false);
+  });
+});
+
+describe('resolveKeybindings', () => {
+  const defaults: Keybinding[] = [
+    { key: 'Ctrl+W', command: 'workbench.action.closeActiveEditor' },
+    { key: 'Ctrl+F4', command: 'workbench.action.closeActiveEditor' },
+    { key: 'Ctrl+\\', command: 'workbench.action.splitEditor' },
+  ];
+
+  it('puts user bindings first and drops the defaults they remove', () => {
+    const user: Keybinding[] = [
+      { key: 'Ctrl+S', command: 'workbench.action.splitEditor' },
+      { key: 'ctrl+w', command: '-workbench.action.closeActiveEditor' },
+    ];
+    expect(resolveKeybindings(defaults, user)).toEqual([
+      { key: 'Ctrl+S', command: 'workbench.action.splitEditor', source: 'user' },
+      { key: 'Ctrl+F4', command: 'workbench.action.closeActiveEditor', source: 'default' },
+      { key: 'Ctrl+\\', command: 'workbench.action.splitEditor', source: 'default' },
+    ]);
+  });
+
+  it('drops every default of a command removed without a key', () => {
+    const resolved = resolveKeybindings(defaults, [{ key: '', command: '-workbench.action.closeActiveEditor' }]);
+    expect(resolved.map((b) => b.key)).toEqual(['Ctrl+\\']);
+  });
+});
+
+describe('findConflicts', () => {
+  it('lists chords bound to more than one command', () => {
+    const bindings: Keybinding[] = [
+      { key: 'Ctrl+K', command: 'a' },
+      { key: 'control+k', command: 'b' },
+      { key: 'Ctrl+J', command: 'a' },
+      { key: 'Ctrl+J', command: 'a' },
+    ];
+    expect(findConflicts(bindings)).toEqual(new Map([[chordId('Ctrl+K'), ['a', 'b']]]));
+  });
+});
+
+describe('commandForEvent', () => {
+  it('skips a disabled command for the next binding of the same chord', () => {
+    const commands = [command('a', () => false), command('b')];
+    const bindings: Keybinding[] = [
+      { key: 'Ctrl+K', command: 'a' },
+      { key: 'Ctrl+K', command: 'b' },
+    ];
+    expect(commandForEvent(commands, bindings, keyEvent('k', { ctrlKey: true }))?.id).toBe('b');
+    expect(commandForEvent(commands, bindings, keyEvent('j', { ctrlKey: true }))).toBeUndefined();
+  });
+});
@@ -0,0 +1,171 @@
+import { isEnabled, isMac, type Command } from './registry';
+
+/**
+ * A key chord bound to a command id. In `key`, `Mod` is ⌘ on macOS and Ctrl
+ * elsewhere, `Ctrl` is Ctrl on every platform and `Meta` is ⌘/the Windows key,
+ * e.g. `Mod+Shift+P`.
+ */
+export type Keybinding = { key: string; command: string };
+
+export type ResolvedKeybinding = Keybinding & { source: 'default' | 'user' };
+
+export const DEFAULT_KEYBINDINGS: Keybinding[] = [
+  { key: 'Mod+Shift+P', command: 'workbench.action.showCommands' },
+  { key: 'Mod+P', command: 'workbench.action.quickOpen' },
+  { key: 'Mod+K', command: 'workbench.action.quickOpen' },
+  { key: 'Mod+Shift+E', command: 'workbench.view.explorer' },
+  { key: 'Mod+Shift+F', command: 'workbench.view.search' },
+  { key: 'Mod+Shift+G', command: 'workbench.view.scm' },
+  { key: 'Mod+B', command: 'workbench.action.toggleSidebarVisibility' },
+  { key: 'Ctrl+`', command: 'workbench.action.terminal.toggleTerminal' },
+  { key: 'Ctrl+Tab', command: 'workbench.action.nextEditorInGroup' },
+  { key: 'Ctrl+Shift+Tab', command: 'workbench.action.previousEditorInGroup' },
+  { key: 'Mod+W', command: 'workbench.action.closeActiveEditor' },
+  { key: 'Mod+Shift+T', command: 'workbench.action.reopenClosedEditor' },
+  { key: 'Mod+\\', command: 'workbench.action.splitEditor' },
+  { key: 'Mod+Shift+V', command: 'markdown.showPreview' },
+  { key: 'Mod+1', command: 'workbench.action.focusFirstEditorGroup' },
+  { key: 'Mod+2', command: 'workbench.action.focusSecondEditorGroup' },
+  { key: 'Mod+3', command: 'workbench.action.focusThirdEditorGroup' },
+  { key: 'Mod+4', command: 'workbench.action.focusFourthEditorGroup' },
+];
+
+const STORAGE_KEY = 'vscode-resume.keybindings';
+
+export const KEYBINDINGS_TEMPLATE = [
+  '// Place your key bindings in this file to override the defaults.',
+  '// Prefix a command with "-" to remove its default binding.',
+  '[',
+  '  // { "key": "Mod+Shift+W", "command": "workbench.action.closeAllEditors" },',
+  '  // { "key": "Mod+1", "command": "-workbench.action.focusFirstEditorGroup" }',
+  ']',
+].join('\n');
+
+const MODIFIERS: Record<string, string> = {
+  mod: 'Mod',
+  ctrl: 'Ctrl',
+  control: 'Ctrl',
+  shift: 'Shift',
+  alt: 'Alt',
+  option: 'Alt',
+  meta: 'Meta',
+  cmd: 'Meta',
+  win: 'Meta',
+};
+
+function parseKeybinding(binding: string) {
+  // The `+` key is written `Ctrl++`; any other `+` separates parts, so `Ctrl+` has no key and is invalid.
+  const parts = binding === '+' ? ['+'] : binding.endsWith('++') ? [...binding.slice(0, -2).split('+'), '+'] : binding.split('+');
+  const key = parts.pop() ?? '';
+  const mods = parts.map((p) => MODIFIERS[p.toLowerCase()]);
+  return {
+    key,
+    valid: key !== '' && mods.every(Boolean),
+    mod: mods.includes('Mod'),
+    ctrl: mods.includes('Ctrl'),
+    meta: mods.includes('Meta'),
+    shift: mods.includes('Shift'),
+    alt: mods.includes('Alt'),
+  };
+}
+
+/** The physical chord on this platform, so `Mod+W` and `Ctrl+W` compare equal outside macOS. */
+export function chordId(binding: string): string {
+  const { key, mod, ctrl, meta, shift, alt } = parseKeybinding(binding);
+  const ctrlKey = ctrl || (mod && !isMac);
+  const metaKey = meta || (mod && isMac);
+  return [ctrlKey && 'ctrl', metaKey && 'meta', shift && 'shift', alt && 'alt', key.toLowerCase()].filter(Boolean).join('+');
+}
+
+export function matchesKeybinding(e: KeyboardEvent, binding: string): boolean {
+  const { key, mod, ctrl, meta, shift, alt } = parseKeybinding(binding);
+  return (
+    e.ctrlKey === (ctrl || (mod && !isMac)) &&
+    e.metaKey === (meta || (mod && isMac)) &&
+    e.shiftKey === shift &&
+    e.altKey === alt &&
+    e.key.toLowerCase() === key.toLowerCase()
+  );
+}
+
+export function formatKeybinding(binding: string): string {
+  const { key, mod, ctrl, meta, shift, alt } = parseKeybinding(binding);
+  const label = key.length === 1 ? key.toUpperCase() : key;
+  if (isMac) return `${ctrl ? '⌃' : ''}${alt ? '⌥' : ''}${shift ? '⇧' : ''}${mod || meta ? '⌘' : ''}${label}`;
+  return [(mod || ctrl) && 'Ctrl', meta && 'Win', shift && 'Shift', alt && 'Alt', label].filter(Boolean).join('+');
+}
+
+export function loadUserKeybindings(): string {
+  try {
+    return localStorage.getItem(STORAGE_KEY) ?? KEYBINDINGS_TEMPLATE;
+  } catch {
+    return KEYBINDINGS_TEMPLATE;
+  }
+}
+
+export function saveUserKeybindings(text: string) {
+  try {
+    localStorage.setItem(STORAGE_KEY, text);
+  } catch {
+    // Storage can be full or disabled (private mode); the bindings apply for this visit only.
+  }
+}
+
+/**
+ * Reads a keybindings file: a JSON array of `{ key, command }` entries, with
+ * whole-line `//` comments allowed as in VS Code's keybindings.json. Invalid
+ * entries are skipped and reported in `errors`.
+ */
+export function parseUserKeybindings(text: string, knownCommands: string[]): { bindings: Keybinding[]; errors: string[] } {
+  let value: unknown;
+  try {
+    value = JSON.parse(text.replace(/^\s*\/\/.*$/gm, ''));
+  } catch (err) {
+    return { bindings: [], errors: [`keybindings.json is not valid JSON: ${(err as Error).message}`] };
+  }
+  if (!Array.isArray(value)) return { bindings: [], errors: ['keybindings.json must contain an array of key bindings.'] };
+  const bindings: Keybinding[] = [];
+  const errors: string[] = [];
+  value.forEach((entry, i) => {
+    const { key, command } = (entry ?? {}) as Partial<Keybinding>;
+    if (typeof command !== 'string' || !command) return errors.push(`Entry ${i + 1}: "command" must be a non-empty string.`);
+    if (!knownCommands.includes(command.replace(/^-/, ''))) return errors.push(`Entry ${i + 1}: unknown command '${command.replace(/^-/, '')}'.`);
+    // Removals may omit the key to drop every default binding of the command.
+    if (command.startsWith('-') && key === undefined) return bindings.push({ key: '', command });
+    if (typeof key !== 'string' || !parseKeybinding(key).valid) return errors.push(`Entry ${i + 1}: "${String(key)}" is not a valid key.`);
+    bindings.push({ key, command });
+  });
+  return { bindings, errors };
+}
+
+/** Defaults minus the user's removals, with the user's own bindings first so they win any conflict. */
+export function resolveKeybindings(defaults: Keybinding[], user: Keybinding[]): ResolvedKeybinding[] {
+  const removals = user.filter((b) => b.command.startsWith('-'));
+  const removed = (b: Keybinding) =>
+    removals.some((r) => r.command.slice(1) === b.command && (!r.key || chordId(r.key) === chordId(b.key)));
+  return [
+    ...user.filter((b) => !b.command.startsWith('-')).map((b): ResolvedKeybinding => ({ ...b, source: 'user' })),
+    ...defaults.filter((b) => !removed(b)).map((b): ResolvedKeybinding => ({ ...b, source: 'default' })),
+  ];
+}
+
+/** Chords bound to more than one command, mapped to those commands' ids. */
+export function findConflicts(bindings: Keybinding[]): Map<string, string[]> {
+  const byChord = new Map<string, string[]>();
+  bindings.forEach((b) => {
+    const id = chordId(b.key);
+    const commands = byChord.get(id) ?? [];
+    if (!commands.includes(b.command)) byChord.set(id, [...commands, b.command]);
+  });
+  return new Map([...byChord].filter(([, commands]) => commands.length > 1));
+}
+
+/** Looks up the enabled command bound to a key event, if any; earlier bindings take precedence. */
+export function commandForEvent(commands: Command[], bindings: Keybinding[], e: KeyboardEvent): Command | undefined {
+  for (const b of bindings) {
+    if (!matchesKeybinding(e, b.key)) continue;
+    const command = commands.find((c) => c.id === b.command);
+    if (command && isEnabled(command)) return command;
+  }
+  return undefined;
+}
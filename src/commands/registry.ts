@@ -0,0 +1,19 @@
+export type Command = {
+  /** Stable identifier, namespaced like VS Code's (e.g. `workbench.action.splitEditor`). */
+  id: string;
+  title: string;
+  category?: string;
+  /** Commands whose precondition fails are hidden from the palette and ignore their keybinding. */
+  when?: () => boolean;
+  run: () => void;
+};
+
+export const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+export function commandLabel(command: Command): string {
+  return command.category ? `${command.category}: ${command.title}` : command.title;
+}
+
+export function isEnabled(command: Command): boolean {
+  return command.when ? command.when() : true;
+}
@@ -0,0 +1,60 @@
+import type { ReactNode } from 'react';
+
+export type SideView = 'explorer' | 'search' | 'scm';
+
+const VIEWS: Array<{ id: SideView; label: string; icon: ReactNode }> = [
+  {
+    id: 'explorer',
+    label: 'Explorer',
+    icon: (
+      <svg width="22" height="22" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" aria-hidden>
+        <path d="M14 3H7a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h10a2 2 0 0 0 2-2V8z" strokeLinejoin="round" />
+        <path d="M14 3v5h5" strokeLinejoin="round" />
+      </svg>
+    ),
+  },
+  {
+    id: 'search',
+    label: 'Search',
+    icon: (
+      <svg width="22" height="22" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" aria-hidden>
+        <circle cx="10.5" cy="10.5" r="6" />
+        <path d="M15 15l5.5 5.5" strokeLinecap="round" />
+      </svg>
+    ),
+  },
+  {
+    id: 'scm',
+    label: 'Source Control',
+    icon: (
+      <svg width="22" height="22" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" aria-hidden>
+        <circle cx="6" cy="5" r="2" />
+        <circle cx="6" cy="19" r="2" />
+        <circle cx="18" cy="7" r="2" />
+        <path d="M6 7v10M18 9c0 5-12 3-12 8" strokeLinecap="round" />
+      </svg>
+    ),
+  },
+];
+
+export default function ActivityBar({ active, onSelect }: { active: SideView | null; onSelect: (view: SideView) => void }) {
+  return (
+    <nav className="w-12 shrink-0 border-r border-divider bg-workbench flex flex-col items-center py-1 gap-1" aria-label="Activity Bar">
+      {VIEWS.map((v) => (
+        <button
+          key={v.id}
+          onClick={() => onSelect(v.id)}
+          title={v.label}
+          aria-label={v.label}
+          aria-pressed={active === v.id}
+          className={
+            'h-10 w-full grid place-items-center border-l-2 transition-colors ' +
+            (active === v.id ? 'border-l-accent text-fg' : 'border-l-transparent text-fg-subtle hover:text-fg-secondary')
+          }
+        >
+          {v.icon}
+        </button>
+      ))}
+    </nav>
+  );
+}
@@ -0,0 +1,121 @@
+import { useEffect, useState, type ReactNode } from 'react';
+
+export type PanelTab<Id extends string> = { id: Id; label: string; badge?: number; content: ReactNode };
+
+const MIN_HEIGHT = 80;
+
+/** Height change for each arrow key press on the sash. */
+const KEYBOARD_STEP = 20;
+
+/**
+ * VS Code-style panel between the editors and the footer. Every tab stays
+ * mounted so terminal scrollback survives switching tabs or hiding the panel.
+ */
+export default function BottomPanel<Id extends string>({
+  tabs,
+  active,
+  open,
+  height,
+  onSelect,
+  onClose,
+  onResize,
+}: {
+  tabs: PanelTab<Id>[];
+  active: Id;
+  open: boolean;
+  height: number;
+  onSelect: (id: Id) => void;
+  onClose: () => void;
+  onResize: (height: number) => void;
+}) {
+  const [drag, setDrag] = useState<{ startY: number; startHeight: number } | null>(null);
+
+  useEffect(() => {
+    if (!drag) return;
+    function onMove(e: MouseEvent) {
+      if (!drag) return;
+      onResize(Math.min(Math.max(drag.startHeight + drag.startY - e.clientY, MIN_HEIGHT), window.innerHeight * 0.7));
+    }
+    function onUp() {
+      setDrag(null);
+    }
+    document.addEventListener('mousemove', onMove);
+    document.addEventListener('mouseup', onUp);
+    const prevCursor = document.body.style.cursor;
+    document.body.style.cursor = 'row-resize';
+    return () => {
+      document.removeEventListener('mousemove', onMove);
+      document.removeEventListener('mouseup', onUp);
+      document.body.style.cursor = prevCursor;
+    };
+  }, [drag, onResize]);
+
+  const maxHeight = () => window.innerHeight * 0.7;
+
+  function onSashKeyDown(e: React.KeyboardEvent<HTMLDivElement>) {
+    const next = { ArrowUp: height + KEYBOARD_STEP, ArrowDown: height - KEYBOARD_STEP, Home: MIN_HEIGHT, End: maxHeight() }[e.key];
+    if (next === undefined) return;
+    e.preventDefault();
+    onResize(Math.min(Math.max(next, MIN_HEIGHT), maxHeight()));
+  }
+
+  /** Arrow keys move between panel tabs, activating them as in the WAI-ARIA tabs pattern. */
+  function onTabKeyDown(e: React.KeyboardEvent<HTMLButtonElement>, index: number) {
+    const target = { ArrowRight: index + 1, ArrowLeft: index - 1, Home: 0, End: tabs.length - 1 }[e.key];
+    if (target === undefined) return;
+    e.preventDefault();
+    const tab = tabs[(target + tabs.length) % tabs.length];
+    onSelect(tab.id);
+    document.getElementById(`panel-tab-${tab.id}`)?.focus();
+  }
+
+  return (
+    <section className="relative shrink-0 border-t border-divider bg-workbench flex flex-col" style={{ height, display: open ? 'flex' : 'none' }} aria-label="Panel">
+      <div
+        role="separator"
+        aria-orientation="horizontal"
+        aria-label="Resize Panel"
+        aria-valuenow={Math.round(height)}
+        aria-valuemin={MIN_HEIGHT}
+        tabIndex={open ? 0 : -1}
+        onKeyDown={onSashKeyDown}
+        onMouseDown={(e) => {
+          e.preventDefault();
+          setDrag({ startY: e.clientY, startHeight: height });
+        }}
+        className="absolute -top-1 left-0 right-0 h-1.5 cursor-row-resize hover:bg-accent/40 focus-visible:bg-accent/40 outline-none z-10"
+      />
+      <div className="h-8 shrink-0 px-3 flex items-center justify-between text-xs uppercase tracking-wide text-fg-muted">
+        <div className="flex items-center gap-4 h-full" role="tablist" aria-label="Panel">
+          {tabs.map((t, i) => (
+            <button
+              key={t.id}
+              id={`panel-tab-${t.id}`}
+              role="tab"
+              aria-selected={t.id === active}
+              aria-controls={`panel-${t.id}`}
+              tabIndex={t.id === active ? 0 : -1}
+              onClick={() => onSelect(t.id)}
+              onKeyDown={(e) => onTabKeyDown(e, i)}
+              className={
+                'h-full flex items-center gap-2 border-b uppercase outline-none focus-visible:ring-1 focus-visible:ring-accent ' +
+                (t.id === active ? 'text-fg border-accent' : 'border-transparent hover:text-fg')
+              }
+            >
+              {t.label}
+              {t.badge !== undefined ? <span className="rounded-full bg-selection px-1.5 text-[11px] text-fg normal-case">{t.badge}</span> : null}
+            </button>
+          ))}
+        </div>
+        <button onClick={onClose} className="text-fg-muted hover:text-fg text-sm" aria-label="Close Panel">
+          ×
+        </button>
+      </div>
+      {tabs.map((t) => (
+        <div key={t.id} id={`panel-${t.id}`} role="tabpanel" aria-labelledby={`panel-tab-${t.id}`} className="flex-1 min-h-0" hidden={t.id !== active}>
+          {t.content}
+        </div>
+      ))}
+    </section>
+  );
+}
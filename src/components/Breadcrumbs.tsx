@@ -0,0 +1,55 @@
+import type { DocumentSymbol } from '../resume/symbols';
+import FileIcon from './FileIcon';
+import { SymbolIcon } from './OutlineView';
+
+const Separator = () => (
+  <span aria-hidden className="px-1 text-fg-subtle">
+    ›
+  </span>
+);
+
+/** The path of a file, then the symbols containing the current line; a symbol can be clicked to reveal it. */
+export default function Breadcrumbs({
+  filePath,
+  icon,
+  path,
+  onReveal,
+}: {
+  filePath: string;
+  icon?: string;
+  path: DocumentSymbol[];
+  onReveal: (symbol: DocumentSymbol) => void;
+}) {
+  const folders = filePath.split('/');
+  const fileName = folders.pop()!;
+  return (
+    <nav aria-label="Breadcrumbs" className="h-6 shrink-0 px-3 flex items-center bg-editor text-xs text-fg-muted overflow-hidden whitespace-nowrap">
+      <ol className="flex items-center min-w-0">
+        {folders.map((folder) => (
+          <li key={folder} className="flex items-center">
+            {folder}
+            <Separator />
+          </li>
+        ))}
+        <li className="flex items-center gap-1">
+          <FileIcon filePath={icon ?? fileName} size={14} />
+          {fileName}
+        </li>
+        {path.map((symbol, i) => (
+          <li key={`${symbol.line}:${symbol.name}`} className="flex items-center min-w-0">
+            <Separator />
+            <button
+              onClick={() => onReveal(symbol)}
+              aria-current={i === path.length - 1 ? 'location' : undefined}
+              title={symbol.detail}
+              className="flex items-center gap-1 min-w-0 rounded px-0.5 hover:text-fg outline-none focus-visible:ring-1 focus-visible:ring-accent"
+            >
+              <SymbolIcon kind={symbol.kind} />
+              <span className="truncate">{symbol.name}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </nav>
+  );
+}
@@ -0,0 +1,66 @@
+import type { FuzzyMatch } from '../commands/fuzzy';
+import { formatKeybinding } from '../commands/keybindings';
+import { commandLabel, type Command } from '../commands/registry';
+
+function Highlighted({ text, indices }: { text: string; indices: number[] }) {
+  const hits = new Set(indices);
+  return (
+    <>
+      {[...text].map((ch, i) =>
+        hits.has(i) ? (
+          <span key={i} className="text-accent font-semibold">
+            {ch}
+          </span>
+        ) : (
+          ch
+        ),
+      )}
+    </>
+  );
+}
+
+export default function CommandPalette({
+  items,
+  selectedIndex,
+  onRun,
+  onHover,
+  keybindingFor,
+}: {
+  items: Array<{ command: Command; match: FuzzyMatch }>;
+  selectedIndex: number;
+  onRun: (command: Command) => void;
+  onHover: (index: number) => void;
+  keybindingFor: (commandId: string) => string | undefined;
+}) {
+  return (
+    <ul className="max-h-72 overflow-auto py-1" role="listbox" aria-label="Commands">
+      {items.length ? (
+        items.map(({ command, match }, i) => {
+          const keybinding = keybindingFor(command.id);
+          return (
+            <li key={command.id} role="option" aria-selected={i === selectedIndex}>
+              <button
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => onRun(command)}
+                onMouseEnter={() => onHover(i)}
+                className={
+                  'w-full text-left px-3 py-1.5 flex items-center justify-between gap-3 text-[13px] text-fg ' +
+                  (i === selectedIndex ? 'bg-selection' : 'hover:bg-selection')
+                }
+              >
+                <span className="truncate">
+                  <Highlighted text={commandLabel(command)} indices={match.indices} />
+                </span>
+                {keybinding ? (
+                  <kbd className="shrink-0 rounded bg-workbench px-1.5 text-[11px] text-fg-muted font-sans">{formatKeybinding(keybinding)}</kbd>
+                ) : null}
+              </button>
+            </li>
+          );
+        })
+      ) : (
+        <li className="px-3 py-2 text-fg-muted text-sm">No matching commands</li>
+      )}
+    </ul>
+  );
+}
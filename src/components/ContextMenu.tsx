@@ -0,0 +1,66 @@
+import { useRef } from 'react';
+import { useMenuKeyboard } from './useMenuKeyboard';
+
+export type ContextMenuItem = { id: string; label: string; run: () => void } | { id: string; separator: true };
+
+const ITEM_HEIGHT = 28;
+
+/** A floating menu at the pointer, or under the focused element when opened from the keyboard. */
+export default function ContextMenu({
+  x,
+  y,
+  label,
+  items,
+  onClose,
+}: {
+  x: number;
+  y: number;
+  label: string;
+  items: ContextMenuItem[];
+  onClose: () => void;
+}) {
+  const menuRef = useRef<HTMLDivElement | null>(null);
+  const onKeyDown = useMenuKeyboard(menuRef, true, onClose);
+  const style: React.CSSProperties = {
+    left: Math.min(x, window.innerWidth - 200),
+    top: Math.min(y, window.innerHeight - items.length * ITEM_HEIGHT - 16),
+  };
+  return (
+    <div className="fixed z-[9999]" style={style}>
+      <div
+        ref={menuRef}
+        role="menu"
+        aria-label={label}
+        onKeyDown={onKeyDown}
+        className="rounded-lg shadow-2xl py-1"
+        style={{
+          background: 'var(--color-menu)',
+          backdropFilter: 'blur(14px) saturate(140%)',
+          WebkitBackdropFilter: 'blur(14px) saturate(140%)',
+          border: '1px solid var(--color-menu-border)',
+          boxShadow: '0 10px 30px rgba(0,0,0,0.45), inset 0 1px rgba(255,255,255,0.08), 0 0 0 0.5px rgba(255,255,255,0.06)',
+          width: 160,
+        }}
+      >
+        {items.map((item) =>
+          'separator' in item ? (
+            <div key={item.id} role="separator" className="my-1 h-px bg-menu-border" />
+          ) : (
+            <button
+              key={item.id}
+              onClick={() => {
+                item.run();
+                onClose();
+              }}
+              tabIndex={-1}
+              className="w-full text-left px-3 py-1.5 text-[13px] text-menu-fg hover:bg-menu-hover focus:bg-menu-hover outline-none"
+              role="menuitem"
+            >
+              {item.label}
+            </button>
+          ),
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import { useEffect, useRef, useState } from 'react';
+import { isMac } from '../commands/registry';
+import { findLinks, linkSegments, type KnownLink, type LinkRange } from '../highlight/links';
+import { TOKEN_CLASSES } from '../highlight/palette';
+import { tokenizeLine, type Language, type Token } from '../highlight/tokenize';
+
+/** A request to scroll to a zero-based line; a new `nonce` repeats the reveal for the same line. */
+export type RevealRequest = { line: number; nonce: number };
+
+/** Zero-based line and column under the pointer or at the end of the selection, and how many characters are selected. */
+export type CursorPosition = { line: number; column: number; selected: number };
+
+/** Character offset of a DOM position within an element's text. */
+function textOffset(el: HTMLElement, node: Node, offset: number): number {
+  const range = document.createRange();
+  range.selectNodeContents(el);
+  range.setEnd(node, offset);
+  return range.toString().length;
+}
+
+function caretFromPoint(x: number, y: number): { node: Node; offset: number } | null {
+  if (document.caretPositionFromPoint) {
+    const position = document.caretPositionFromPoint(x, y);
+    return position && { node: position.offsetNode, offset: position.offset };
+  }
+  // Safari only has the older, non-standard API.
+  const range = document.caretRangeFromPoint?.(x, y);
+  return range ? { node: range.startContainer, offset: range.startOffset } : null;
+}
+
+const FOLLOW_HINT = `Follow link (${isMac ? 'cmd' : 'ctrl'} + click)`;
+
+function Tokens({ tokens }: { tokens: Token[] }) {
+  return (
+    <>
+      {tokens.map((t, i) => (
+        <span key={i} className={TOKEN_CLASSES[t.type]}>
+          {t.text}
+        </span>
+      ))}
+    </>
+  );
+}
+
+export default function Editor({
+  lines,
+  language = 'plaintext',
+  links,
+  reveal,
+  onRevealed,
+  syncLine,
+  onScrollLine,
+  onCursorChange,
+  onLinkContextMenu,
+}: {
+  lines: string[];
+  language?: Language;
+  /** Links from the resume data for text that isn't a URL itself; see `findLinks`. */
+  links?: KnownLink[];
+  reveal?: RevealRequest;
+  /** Called once the reveal has been applied so the owner can drop the request. */
+  onRevealed?: () => void;
+  /** Line to scroll to the top, following a preview of the file; see `MarkdownPreview`. */
+  syncLine?: number;
+  /** Reports the topmost visible line as the user scrolls. */
+  onScrollLine?: (line: number) => void;
+  /** Reports the position under the pointer, or of the selection while there is one; null once the pointer leaves. */
+  onCursorChange?: (position: CursorPosition | null) => void;
+  onLinkContextMenu?: (href: string, x: number, y: number) => void;
+}) {
+  const [hoveredLine, setHoveredLine] = useState<number | null>(null);
+  const [flashLine, setFlashLine] = useState<number | null>(null);
+  const lineRefs = useRef<Array<HTMLDivElement | null>>([]);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  /** Set while the editor scrolls itself to `syncLine`, so the resulting scroll event isn't reported back. */
+  const syncingRef = useRef(false);
+  const cursorRef = useRef<CursorPosition | null>(null);
+  const hasSelectionRef = useRef(false);
+
+  useEffect(() => {
+    if (!reveal) return;
+    lineRefs.current[reveal.line]?.scrollIntoView({ block: 'center' });
+    setFlashLine(reveal.line);
+    onRevealed?.();
+  }, [reveal, onRevealed]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    const target = syncLine === undefined ? null : lineRefs.current[syncLine];
+    if (!container || !target || Math.abs(container.scrollTop - target.offsetTop) < 1) return;
+    syncingRef.current = true;
+    container.scrollTop = target.offsetTop;
+  }, [syncLine]);
+
+  function onScroll() {
+    const container = containerRef.current;
+    if (syncingRef.current || !container) {
+      syncingRef.current = false;
+      return;
+    }
+    const top = lineRefs.current.findIndex((el) => el && el.offsetTop + el.offsetHeight > container.scrollTop);
+    if (top !== -1) onScrollLine?.(top);
+  }
+
+  function reportCursor(position: CursorPosition | null) {
+    const last = cursorRef.current;
+    const unchanged = position && last && position.line === last.line && position.column === last.column && position.selected === last.selected;
+    if (position === last || unchanged) return;
+    cursorRef.current = position;
+    onCursorChange?.(position);
+  }
+
+  function onLineMouseMove(e: React.MouseEvent<HTMLDivElement>, line: number) {
+    if (hasSelectionRef.current) return;
+    const caret = caretFromPoint(e.clientX, e.clientY);
+    if (!caret || !e.currentTarget.contains(caret.node)) return;
+    reportCursor({ line, column: textOffset(e.currentTarget, caret.node, caret.offset), selected: 0 });
+  }
+
+  /** After a mouse or keyboard selection, reports where the selection ends. */
+  function onSelectionEnd() {
+    const selection = window.getSelection();
+    const focus = selection?.focusNode ?? null;
+    const lineEl = focus ? (focus instanceof HTMLElement ? focus : focus.parentElement)?.closest<HTMLElement>('[data-line]') : null;
+    hasSelectionRef.current = !!(selection && !selection.isCollapsed && lineEl && containerRef.current?.contains(lineEl));
+    if (!selection || !focus || !lineEl || !hasSelectionRef.current) return;
+    reportCursor({ line: Number(lineEl.dataset.line), column: textOffset(lineEl, focus, selection.focusOffset), selected: selection.toString().length });
+  }
+
+  const lineLinks = findLinks(lines, links);
+
+  function renderLink(link: LinkRange, tokens: Token[], key: number) {
+    const openMenu = (x: number, y: number) => onLinkContextMenu?.(link.href, x, y);
+    return (
+      <a
+        key={key}
+        href={link.href}
+        target={/^https?:/.test(link.href) ? '_blank' : undefined}
+        rel="noopener noreferrer"
+        title={`${link.href}\n${FOLLOW_HINT}`}
+        onClick={(e) => {
+          // As in VS Code a plain click doesn't navigate; the modifier (or Enter on the focused link) does.
+          if (e.detail !== 0 && !(isMac ? e.metaKey : e.ctrlKey)) e.preventDefault();
+        }}
+        onContextMenu={(e) => {
+          if (!onLinkContextMenu) return;
+          e.preventDefault();
+          openMenu(e.clientX, e.clientY);
+        }}
+        onKeyDown={(e) => {
+          if (!onLinkContextMenu || !(e.key === 'ContextMenu' || (e.shiftKey && e.key === 'F10'))) return;
+          e.preventDefault();
+          const rect = e.currentTarget.getBoundingClientRect();
+          openMenu(rect.left, rect.bottom);
+        }}
+        className="underline decoration-dotted underline-offset-2 hover:decoration-solid outline-none focus-visible:ring-1 focus-visible:ring-accent"
+      >
+        <Tokens tokens={tokens} />
+      </a>
+    );
+  }
+
+  useEffect(() => {
+    if (flashLine === null) return;
+    const timer = window.setTimeout(() => setFlashLine(null), 1200);
+    return () => window.clearTimeout(timer);
+  }, [flashLine]);
+
+  // Focusable so the file can be scrolled from the keyboard, and positioned so line offsets are measured from its top.
+  return (
+    <div
+      ref={containerRef}
+      onScroll={onScrollLine ? onScroll : undefined}
+      onMouseUp={onCursorChange ? onSelectionEnd : undefined}
+      onKeyUp={onCursorChange ? onSelectionEnd : undefined}
+      onMouseLeave={() => !hasSelectionRef.current && reportCursor(null)}
+      tabIndex={0}
+      className="relative h-full w-full min-w-0 overflow-y-auto overflow-x-hidden bg-editor font-mono text-[13px] outline-none focus-visible:ring-1 focus-visible:ring-inset focus-visible:ring-accent/60"
+    >
+      <div className="w-full">
+        {lines.map((line, idx) => {
+          const isHovered = hoveredLine === idx;
+          return (
+            <div
+              key={idx}
+              ref={(el) => {
+                lineRefs.current[idx] = el;
+              }}
+              onMouseEnter={() => setHoveredLine(idx)}
+              onMouseLeave={() => setHoveredLine(null)}
+              className={
+                'grid grid-cols-[56px_1fr] items-start py-1 leading-5 border-b border-transparent transition-colors duration-700 ' +
+                (isHovered ? 'bg-selection border-l-2 border-l-accent' : flashLine === idx ? 'bg-accent/25' : '')
+              }
+            >
+              <div aria-hidden className={'select-none pr-3 pl-2 pt-0.5 text-right ' + (isHovered ? 'text-fg' : 'text-fg-subtle')}>{idx + 1}</div>
+              <div
+                data-line={idx}
+                onMouseMove={onCursorChange ? (e) => onLineMouseMove(e, idx) : undefined}
+                className="whitespace-pre-wrap break-words px-3 text-fg"
+              >
+                {line.length
+                  ? linkSegments(tokenizeLine(line, language), lineLinks[idx]).map((segment, i) =>
+                      segment.link ? renderLink(segment.link, segment.tokens, i) : <Tokens key={i} tokens={segment.tokens} />,
+                    )
+                  : ' '}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
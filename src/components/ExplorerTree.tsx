@@ -0,0 +1,161 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { buildTree, visibleRows } from '../explorer/tree';
+import type { SectionDescriptor } from '../resume/sections';
+import FileIcon from './FileIcon';
+
+export default function ExplorerTree({
+  sections,
+  folders,
+  collapsed,
+  activeIds,
+  onOpen,
+  onToggleFolder,
+  onCollapseAll,
+  onDragFile,
+  onDragEnd,
+}: {
+  sections: SectionDescriptor[];
+  /** Folders to show even while they have no files, e.g. before the resume loads. */
+  folders: string[];
+  collapsed: string[];
+  activeIds: string[];
+  onOpen: (section: SectionDescriptor) => void;
+  onToggleFolder: (path: string) => void;
+  onCollapseAll: () => void;
+  /** Files can be dragged into an editor group to open them there. */
+  onDragFile: (section: SectionDescriptor, e: React.DragEvent<HTMLLIElement>) => void;
+  onDragEnd: () => void;
+}) {
+  const tree = useMemo(() => buildTree(sections, (s) => s.filePath, folders), [sections, folders]);
+  const rows = useMemo(() => visibleRows(tree, new Set(collapsed)), [tree, collapsed]);
+  const [focusedPath, setFocusedPath] = useState<string | null>(null);
+  const rowRefs = useRef(new Map<string, HTMLLIElement>());
+
+  // Keep keyboard focus on a visible row when its folder collapses or the file disappears.
+  const focusedIndex = Math.max(rows.findIndex((r) => r.node.path === focusedPath), 0);
+  const focused = rows[focusedIndex];
+
+  useEffect(() => {
+    if (focused) rowRefs.current.get(focused.node.path)?.scrollIntoView({ block: 'nearest' });
+  }, [focused]);
+
+  function activate(index: number) {
+    const row = rows[index];
+    if (!row) return;
+    setFocusedPath(row.node.path);
+    if (row.node.kind === 'folder') onToggleFolder(row.node.path);
+    else onOpen(row.node.item);
+  }
+
+  function onKeyDown(e: React.KeyboardEvent<HTMLUListElement>) {
+    if (!focused) return;
+    const { node, parent } = focused;
+    const isOpenFolder = node.kind === 'folder' && !collapsed.includes(node.path);
+    const moveTo = (index: number) => setFocusedPath(rows[Math.min(Math.max(index, 0), rows.length - 1)].node.path);
+    switch (e.key) {
+      case 'ArrowDown':
+        moveTo(focusedIndex + 1);
+        break;
+      case 'ArrowUp':
+        moveTo(focusedIndex - 1);
+        break;
+      case 'Home':
+        moveTo(0);
+        break;
+      case 'End':
+        moveTo(rows.length - 1);
+        break;
+      case 'ArrowRight':
+        if (node.kind !== 'folder') return;
+        if (isOpenFolder) {
+          if (node.children.length) moveTo(focusedIndex + 1);
+        } else onToggleFolder(node.path);
+        break;
+      case 'ArrowLeft':
+        if (isOpenFolder) onToggleFolder(node.path);
+        else if (parent) setFocusedPath(parent);
+        break;
+      case 'Enter':
+      case ' ':
+        activate(focusedIndex);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  }
+
+  return (
+    <>
+      <div className="px-3 py-2 flex items-center justify-between text-xs uppercase tracking-wide text-fg-muted">
+        <span>Explorer</span>
+        <button
+          onClick={onCollapseAll}
+          title="Collapse Folders in Explorer"
+          aria-label="Collapse Folders in Explorer"
+          className="h-5 w-5 grid place-items-center rounded text-fg-muted hover:text-fg hover:bg-selection"
+        >
+          <svg width="14" height="14" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.2" aria-hidden>
+            <rect x="4.5" y="4.5" width="9" height="9" rx="1" />
+            <path d="M2.5 11V3.5a1 1 0 0 1 1-1H11M6.5 9h5" strokeLinecap="round" />
+          </svg>
+        </button>
+      </div>
+      <ul
+        role="tree"
+        aria-label="Resume files"
+        tabIndex={0}
+        aria-activedescendant={focused ? `explorer-${focused.node.path}` : undefined}
+        onKeyDown={onKeyDown}
+        className="group px-2 pb-4 outline-none"
+      >
+        {rows.map((row, index) => {
+          const { node, depth, position, siblings } = row;
+          const isActive = node.kind === 'file' && activeIds.includes(node.item.id);
+          const isExpanded = node.kind === 'folder' ? !collapsed.includes(node.path) : undefined;
+          return (
+            <li
+              key={node.path}
+              id={`explorer-${node.path}`}
+              ref={(el) => {
+                if (el) rowRefs.current.set(node.path, el);
+                else rowRefs.current.delete(node.path);
+              }}
+              role="treeitem"
+              aria-level={depth + 1}
+              aria-posinset={position}
+              aria-setsize={siblings}
+              aria-expanded={isExpanded}
+              aria-selected={isActive}
+              onClick={() => activate(index)}
+              draggable={node.kind === 'file'}
+              onDragStart={node.kind === 'file' ? (e) => onDragFile(node.item, e) : undefined}
+              onDragEnd={onDragEnd}
+              style={{ paddingLeft: 4 + depth * 12 }}
+              className={
+                'flex items-center gap-1.5 pr-2 py-1 rounded cursor-pointer select-none ' +
+                (isActive ? 'bg-selection text-fg' : 'hover:bg-editor text-fg-secondary') +
+                (index === focusedIndex ? ' group-focus-visible:ring-1 group-focus-visible:ring-inset group-focus-visible:ring-accent' : '')
+              }
+            >
+              {node.kind === 'folder' ? (
+                <>
+                  <svg width="16" height="16" viewBox="0 0 16 16" className={'shrink-0 transition-transform ' + (isExpanded ? 'rotate-90' : '')} aria-hidden>
+                    <path d="M6 4l4 4-4 4" fill="none" stroke="currentColor" strokeWidth="1.3" strokeLinecap="round" strokeLinejoin="round" />
+                  </svg>
+                  <span className="truncate">{node.name}</span>
+                </>
+              ) : (
+                <>
+                  <span className="w-4 shrink-0" />
+                  <FileIcon filePath={node.item.icon ?? node.name} className="shrink-0" size={18} />
+                  <span className="truncate">{node.name}</span>
+                </>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </>
+  );
+}
@@ -0,0 +1,64 @@
+import { useEffect, useRef, useState } from 'react';
+import { useMenuKeyboard } from './useMenuKeyboard';
+
+export type ExportItem = { id: string; label: string; run: () => void };
+
+export default function ExportMenu({ items, disabled }: { items: ExportItem[]; disabled?: boolean }) {
+  const [open, setOpen] = useState(false);
+  const rootRef = useRef<HTMLDivElement | null>(null);
+  const menuRef = useRef<HTMLUListElement | null>(null);
+  const onMenuKeyDown = useMenuKeyboard(menuRef, open, () => setOpen(false));
+
+  useEffect(() => {
+    if (!open) return;
+    const onDown = (e: MouseEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', onDown);
+    return () => document.removeEventListener('mousedown', onDown);
+  }, [open]);
+
+  return (
+    <div className="relative" ref={rootRef}>
+      <button
+        onClick={() => setOpen((v) => !v)}
+        disabled={disabled}
+        aria-label="Export Resume"
+        aria-haspopup="menu"
+        aria-expanded={open}
+        title={disabled ? 'Export is available once the resume data has loaded' : 'Export Resume'}
+        className="h-7 w-7 grid place-items-center rounded text-fg hover:bg-selection transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+      >
+        <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.6" strokeLinecap="round" aria-hidden>
+          <path d="M12 4v11M7.5 10.5L12 15l4.5-4.5" strokeLinejoin="round" />
+          <path d="M5 19h14" />
+        </svg>
+      </button>
+      {open && (
+        <ul
+          ref={menuRef}
+          onKeyDown={onMenuKeyDown}
+          className="absolute right-0 mt-1 z-50 w-52 bg-editor border border-divider rounded shadow-lg py-1"
+          role="menu"
+          aria-label="Export Resume"
+        >
+          {items.map((item) => (
+            <li key={item.id} role="none">
+              <button
+                role="menuitem"
+                tabIndex={-1}
+                onClick={() => {
+                  setOpen(false);
+                  item.run();
+                }}
+                className="w-full text-left px-3 py-1.5 text-[13px] text-fg hover:bg-selection focus:bg-selection outline-none"
+              >
+                {item.label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
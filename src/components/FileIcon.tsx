@@ -0,0 +1,182 @@
+import type { ReactNode } from 'react';
+
+export default function FileIcon({ filePath, className, size = 18 }: { filePath: string; className?: string; size?: number }) {
+  const name = filePath.toLowerCase();
+  const ext = name.split('.').pop() || '';
+
+  function Svg({ children }: { children: ReactNode }) {
+    return (
+      <svg width={size} height={size} viewBox="0 0 16 16" xmlns="http://www.w3.org/2000/svg" className={className} aria-hidden>
+        {children}
+      </svg>
+    );
+  }
+
+  // React (tsx)
+  if (ext === 'tsx' || name.endsWith('.jsx')) {
+    return (
+      <Svg>
+        <circle cx="8" cy="8" r="2" fill="#00d8ff" />
+        <g stroke="#00d8ff" strokeWidth="1" fill="none">
+          <ellipse cx="8" cy="8" rx="6" ry="2.5" />
+          <ellipse cx="8" cy="8" rx="6" ry="2.5" transform="rotate(60 8 8)" />
+          <ellipse cx="8" cy="8" rx="6" ry="2.5" transform="rotate(120 8 8)" />
+        </g>
+      </Svg>
+    );
+  }
+
+  // TypeScript (.ts)
+  if (ext === 'ts') {
+    return (
+      <Svg>
+        <rect x="1" y="2" width="14" height="12" rx="2" fill="#2f74c0" />
+        <text x="8" y="11" textAnchor="middle" fontSize="7" fontWeight="700" fill="#fff" fontFamily="Inter, system-ui, sans-serif">
+          TS
+        </text>
+      </Svg>
+    );
+  }
+
+  // Vite config
+  if (name === 'vite.config.ts' || name === 'vite.config.js') {
+    return (
+      <Svg>
+        <path d="M2 3l6 10 6-10z" fill="#ffcc66" />
+        <path d="M2.5 3.2L8 12 13.5 3.2" stroke="#7c4dff" strokeWidth="1.3" fill="none" />
+      </Svg>
+    );
+  }
+
+  // HTML
+  if (ext === 'html') {
+    return (
+      <Svg>
+        <path d="M2 2h12l-1 11-5 1-5-1z" fill="#e54d26" />
+        <path d="M8 3v9" stroke="#fff" strokeWidth="1" />
+        <path d="M5 5h3m0 0h3M5 8h6M5 11h6" stroke="#fff" strokeWidth="1" />
+      </Svg>
+    );
+  }
+
+  // CSS
+  if (ext === 'css') {
+    return (
+      <Svg>
+        <rect x="1" y="2" width="14" height="12" rx="2" fill="#8a5cf6" />
+        <text x="8" y="11" textAnchor="middle" fontSize="6.5" fontWeight="800" fill="#fff" fontFamily="Inter, system-ui, sans-serif">
+          CSS
+        </text>
+      </Svg>
+    );
+  }
+
+  // ESLint config
+  if (name.includes('eslint') && (ext === 'js' || ext === 'cjs' || ext === 'mjs')) {
+    return (
+      <Svg>
+        <polygon points="8,2 12.9,5 12.9,11 8,14 3.1,11 3.1,5" fill="#4b32c3" />
+        <text x="8" y="10.5" textAnchor="middle" fontSize="6" fontWeight="700" fill="#fff" fontFamily="Inter, system-ui, sans-serif">
+          ES
+        </text>
+      </Svg>
+    );
+  }
+
+  // NPM (package.json, package-lock.json)
+  if (name === 'package.json' || name === 'package-lock.json') {
+    return (
+      <Svg>
+        <rect x="1" y="3" width="14" height="10" rx="2" fill="#cb3837" />
+        <text x="8" y="10.5" textAnchor="middle" fontSize="6" fontWeight="800" fill="#fff" fontFamily="Inter, system-ui, sans-serif">
+          npm
+        </text>
+      </Svg>
+    );
+  }
+
+  // TSConfig
+  if (name.startsWith('tsconfig') && ext === 'json') {
+    return (
+      <Svg>
+        <rect x="1" y="2" width="14" height="12" rx="2" fill="#2f74c0" />
+        <text x="8" y="10.5" textAnchor="middle" fontSize="6.5" fontWeight="800" fill="#fff" fontFamily="Inter, system-ui, sans-serif">
+          TS
+        </text>
+        <circle cx="12.5" cy="4.5" r="2" stroke="#fff" strokeWidth="1" fill="none" />
+        <circle cx="12.5" cy="4.5" r="1" fill="#fff" />
+      </Svg>
+    );
+  }
+
+  // Git ignore
+  if (name === '.gitignore') {
+    return (
+      <Svg>
+        <rect x="2" y="3" width="12" height="10" rx="2" fill="#f05133" />
+        <path d="M5 6l6 4M11 6l-6 4" stroke="#fff" strokeWidth="1.2" />
+      </Svg>
+    );
+  }
+
+  // README / Markdown
+  if (ext === 'md') {
+    return (
+      <Svg>
+        <rect x="2" y="2" width="12" height="12" rx="2" fill="#ffcc66" />
+        <path d="M4 4h8M4 7h8M4 10h5" stroke="#3b2e1a" strokeWidth="1" />
+      </Svg>
+    );
+  }
+
+  // Timeline editor
+  if (ext === 'timeline') {
+    return (
+      <Svg>
+        <path d="M2 13.5h12" stroke="#8695b7" strokeWidth="1" />
+        <rect x="2" y="3" width="7" height="2.5" rx="1" fill="#00d8ff" />
+        <rect x="6" y="7" width="8" height="2.5" rx="1" fill="#ffcc66" />
+        <rect x="3" y="10" width="4" height="2" rx="1" fill="#f29f3a" />
+      </Svg>
+    );
+  }
+
+  // Diff (a commit from the Source Control view)
+  if (ext === 'diff') {
+    return (
+      <Svg>
+        <rect x="2" y="2" width="12" height="12" rx="2" fill="#8695b7" />
+        <path d="M5 5.5h4M7 3.5v4" stroke="#87d96c" strokeWidth="1.3" />
+        <path d="M5 11h4" stroke="#ef6b73" strokeWidth="1.3" />
+      </Svg>
+    );
+  }
+
+  // JSON (generic)
+  if (ext === 'json') {
+    return (
+      <Svg>
+        <rect x="1" y="2" width="14" height="12" rx="2" fill="#f29f3a" />
+        <text x="8" y="11" textAnchor="middle" fontSize="7" fontWeight="800" fill="#0b1220" fontFamily="Inter, system-ui, sans-serif">{`{}`}</text>
+      </Svg>
+    );
+  }
+
+  // Default: show extension label
+  return (
+    <Svg>
+      <rect x="1" y="2" width="14" height="12" rx="2" fill="#7f8c98" />
+      <text
+        x="8"
+        y="11"
+        textAnchor="middle"
+        fontSize={ext.length > 3 ? 5.5 : 6.5}
+        fontWeight="800"
+        fill="#0b1220"
+        fontFamily="Inter, system-ui, sans-serif"
+      >
+        {ext.toUpperCase()}
+      </text>
+    </Svg>
+  );
+}
@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { chordId, formatKeybinding, type ResolvedKeybinding } from '../commands/keybindings';
+import { commandLabel, type Command } from '../commands/registry';
+
+/**
+ * The Keyboard Shortcuts editor: every command with the keys bound to it, and
+ * the user's keybindings.json, which is applied on save.
+ */
+export default function KeyboardShortcuts({
+  commands,
+  bindings,
+  conflicts,
+  source,
+  errors,
+  onSave,
+}: {
+  commands: Command[];
+  bindings: ResolvedKeybinding[];
+  /** Chord ids (see `chordId`) bound to more than one command, with those commands. */
+  conflicts: Map<string, string[]>;
+  source: string;
+  errors: string[];
+  onSave: (source: string) => void;
+}) {
+  const [filter, setFilter] = useState('');
+  const [draft, setDraft] = useState(source);
+  const q = filter.trim().toLowerCase();
+  const rows = commands
+    .map((command) => ({ command, bound: bindings.filter((b) => b.command === command.id) }))
+    .filter(
+      ({ command, bound }) =>
+        !q ||
+        commandLabel(command).toLowerCase().includes(q) ||
+        command.id.toLowerCase().includes(q) ||
+        bound.some((b) => formatKeybinding(b.key).toLowerCase().includes(q)),
+    )
+    // Bound commands first, as in VS Code, then alphabetically.
+    .sort((a, b) => Number(!a.bound.length) - Number(!b.bound.length) || commandLabel(a.command).localeCompare(commandLabel(b.command)));
+  const titleOf = (id: string) => {
+    const command = commands.find((c) => c.id === id);
+    return command ? commandLabel(command) : id;
+  };
+
+  return (
+    <div className="h-full overflow-auto p-4 text-[13px] text-fg">
+      <div className="flex items-center gap-2 bg-input rounded px-2 py-1 max-w-xl focus-within:ring-1 focus-within:ring-accent/70">
+        <input
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Type to search in keybindings"
+          aria-label="Search keybindings"
+          className="bg-transparent outline-none text-sm w-full placeholder:text-fg-muted text-fg"
+        />
+      </div>
+      <table className="mt-3 w-full border-collapse">
+        <thead>
+          <tr className="text-left text-xs text-fg-muted">
+            <th className="font-normal px-2 py-1">Command</th>
+            <th className="font-normal px-2 py-1">Keybinding</th>
+            <th className="font-normal px-2 py-1">Source</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ command, bound }) => (
+            <tr key={command.id} className="border-t border-divider align-top hover:bg-selection/50">
+              <td className="px-2 py-1.5">
+                <div>{commandLabel(command)}</div>
+                <div className="text-[11px] text-fg-subtle font-mono">{command.id}</div>
+              </td>
+              <td className="px-2 py-1.5">
+                {bound.length ? (
+                  bound.map((b) => {
+                    const others = (conflicts.get(chordId(b.key)) ?? []).filter((id) => id !== command.id);
+                    return (
+                      <div key={b.key} className="flex items-center gap-2">
+                        <kbd className="rounded bg-workbench px-1.5 text-[11px] text-fg-secondary font-sans">{formatKeybinding(b.key)}</kbd>
+                        {others.length ? (
+                          <span className="text-[11px] text-warning" title={`Also bound to ${others.map(titleOf).join(', ')}`}>
+                            ⚠ {others.length} conflict{others.length > 1 ? 's' : ''}
+                          </span>
+                        ) : null}
+                      </div>
+                    );
+                  })
+                ) : (
+                  <span className="text-fg-subtle">—</span>
+                )}
+              </td>
+              <td className="px-2 py-1.5 text-fg-muted">{bound.length ? [...new Set(bound.map((b) => (b.source === 'user' ? 'User' : 'Default')))].join(', ') : ''}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="mt-6 max-w-3xl">
+        <div className="flex items-center justify-between">
+          <span className="text-xs uppercase tracking-wide text-fg-muted">keybindings.json</span>
+          <div className="flex gap-2">
+            <button onClick={() => setDraft(source)} disabled={draft === source} className="rounded px-2 py-0.5 text-fg-muted hover:bg-selection disabled:opacity-40">
+              Revert
+            </button>
+            <button onClick={() => onSave(draft)} disabled={draft === source} className="rounded px-2 py-0.5 bg-accent/20 text-accent hover:bg-accent/30 disabled:opacity-40">
+              Save
+            </button>
+          </div>
+        </div>
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 's') {
+              e.preventDefault();
+              onSave(draft);
+            }
+          }}
+          spellCheck={false}
+          aria-label="keybindings.json"
+          className="mt-2 w-full h-48 rounded bg-input p-2 font-mono text-[12px] text-fg outline-none focus:ring-1 focus:ring-accent/70"
+        />
+        {errors.length ? (
+          <ul className="mt-2 space-y-0.5 text-[12px] text-error">
+            {errors.map((error) => (
+              <li key={error}>⊗ {error}</li>
+            ))}
+          </ul>
+        ) : null}
+      </div>
+    </div>
+  );
+}
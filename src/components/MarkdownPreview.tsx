@@ -0,0 +1,148 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { parseMarkdown, type Block, type Inline } from '../markdown/parse';
+
+const HEADING_CLASSES = [
+  'text-2xl font-semibold pb-1.5 border-b border-divider',
+  'text-xl font-semibold pb-1 border-b border-divider',
+  'text-lg font-semibold',
+  'text-base font-semibold',
+  'text-sm font-semibold',
+  'text-sm font-semibold text-fg-muted',
+];
+
+function Inlines({ nodes }: { nodes: Inline[] }) {
+  return (
+    <>
+      {nodes.map((node, i) => {
+        switch (node.type) {
+          case 'text':
+            return node.text;
+          case 'code':
+            return (
+              <code key={i} className="rounded bg-input px-1 font-mono text-[0.9em] text-syntax-string">
+                {node.text}
+              </code>
+            );
+          case 'strong':
+            return (
+              <strong key={i} className="font-semibold">
+                <Inlines nodes={node.children} />
+              </strong>
+            );
+          case 'emphasis':
+            return (
+              <em key={i}>
+                <Inlines nodes={node.children} />
+              </em>
+            );
+          case 'link':
+            return (
+              <a
+                key={i}
+                href={node.href}
+                target={/^https?:/.test(node.href) ? '_blank' : undefined}
+                rel="noopener noreferrer"
+                title={node.href}
+                className="text-syntax-link hover:underline"
+              >
+                <Inlines nodes={node.children} />
+              </a>
+            );
+        }
+      })}
+    </>
+  );
+}
+
+function renderBlock(block: Block) {
+  switch (block.type) {
+    case 'heading': {
+      const Tag = `h${block.level}` as 'h1';
+      return (
+        <Tag key={block.line} data-line={block.line} className={'mt-5 mb-3 first:mt-0 ' + HEADING_CLASSES[block.level - 1]}>
+          <Inlines nodes={block.content} />
+        </Tag>
+      );
+    }
+    case 'paragraph':
+      return (
+        <p key={block.line} data-line={block.line} className="my-3">
+          <Inlines nodes={block.content} />
+        </p>
+      );
+    case 'rule':
+      return <hr key={block.line} data-line={block.line} className="my-5 border-divider" />;
+    case 'list': {
+      const List = block.ordered ? 'ol' : 'ul';
+      // List items carry their own lines so long lists stay in step item by item.
+      return (
+        <List key={block.line} className={'my-3 pl-6 space-y-1 ' + (block.ordered ? 'list-decimal' : 'list-disc')}>
+          {block.items.map((item) => (
+            <li key={item.line} data-line={item.line} style={item.depth ? { marginLeft: `${item.depth * 1.25}rem` } : undefined}>
+              <Inlines nodes={item.content} />
+            </li>
+          ))}
+        </List>
+      );
+    }
+  }
+}
+
+/** Elements that start at a known source line, in document order. */
+function anchorsIn(container: HTMLElement): HTMLElement[] {
+  return [...container.querySelectorAll<HTMLElement>('[data-line]')];
+}
+
+/**
+ * Rendered view of a Markdown section. `syncLine` scrolls the preview to the
+ * block at a source line, and `onScrollLine` reports the source line of the
+ * topmost visible block, so a source editor beside it can follow along.
+ */
+export default function MarkdownPreview({
+  lines,
+  syncLine,
+  onScrollLine,
+}: {
+  lines: string[];
+  syncLine?: number;
+  onScrollLine?: (line: number) => void;
+}) {
+  const blocks = useMemo(() => parseMarkdown(lines), [lines]);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  /** Set while the preview scrolls itself, so the resulting scroll event isn't reported back. */
+  const syncingRef = useRef(false);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (syncLine === undefined || !container) return;
+    const target = anchorsIn(container)
+      .filter((el) => Number(el.dataset.line) <= syncLine)
+      .pop();
+    const top = target ? target.offsetTop : 0;
+    if (Math.abs(container.scrollTop - top) < 1) return;
+    syncingRef.current = true;
+    container.scrollTop = top;
+  }, [syncLine]);
+
+  function onScroll() {
+    const container = containerRef.current;
+    if (syncingRef.current || !container) {
+      syncingRef.current = false;
+      return;
+    }
+    const first = anchorsIn(container).find((el) => el.offsetTop + el.offsetHeight > container.scrollTop);
+    if (first) onScrollLine?.(Number(first.dataset.line));
+  }
+
+  // Positioned so the blocks' `offsetTop` is measured from the top of the scrolled content.
+  return (
+    <div
+      ref={containerRef}
+      onScroll={onScroll}
+      tabIndex={0}
+      className="relative h-full overflow-y-auto bg-editor outline-none focus-visible:ring-1 focus-visible:ring-inset focus-visible:ring-accent/60"
+    >
+      <article className="max-w-3xl mx-auto px-8 py-6 text-[14px] leading-relaxed text-fg">{blocks.map(renderBlock)}</article>
+    </div>
+  );
+}
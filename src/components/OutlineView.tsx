@@ -0,0 +1,84 @@
+import { flattenSymbols, symbolPathAt, type DocumentSymbol, type SymbolKind } from '../resume/symbols';
+
+const SYMBOL_ICONS: Record<SymbolKind, { glyph: string; className: string }> = {
+  heading: { glyph: '#', className: 'text-syntax-keyword' },
+  job: { glyph: '◆', className: 'text-syntax-type' },
+  project: { glyph: '{}', className: 'text-syntax-number' },
+  degree: { glyph: '▲', className: 'text-syntax-property' },
+  certificate: { glyph: '✦', className: 'text-syntax-string' },
+};
+
+export function SymbolIcon({ kind }: { kind: SymbolKind }) {
+  const { glyph, className } = SYMBOL_ICONS[kind];
+  return (
+    <span aria-hidden className={'w-4 shrink-0 text-center font-mono text-[11px] ' + className}>
+      {glyph}
+    </span>
+  );
+}
+
+/**
+ * Collapsible pane listing the symbols of the focused file. `line` is the last
+ * line the user pointed at in that file; the symbol containing it is highlighted.
+ */
+export default function OutlineView({
+  filePath,
+  symbols,
+  line,
+  collapsed,
+  onToggle,
+  onReveal,
+}: {
+  /** Null when the focused tab isn't a file. */
+  filePath: string | null;
+  symbols: DocumentSymbol[];
+  line: number | null;
+  collapsed: boolean;
+  onToggle: () => void;
+  onReveal: (symbol: DocumentSymbol) => void;
+}) {
+  const current = line === null ? undefined : symbolPathAt(symbols, line).pop();
+  const rows = flattenSymbols(symbols);
+  const fileName = filePath?.split('/').pop();
+
+  return (
+    <section className={'border-t border-divider flex flex-col min-h-0 ' + (collapsed ? 'shrink-0' : 'max-h-[45%]')} aria-label="Outline">
+      <button
+        onClick={onToggle}
+        aria-expanded={!collapsed}
+        className="px-1.5 py-1 flex items-center gap-1 text-xs uppercase tracking-wide text-fg-muted hover:text-fg outline-none focus-visible:ring-1 focus-visible:ring-inset focus-visible:ring-accent"
+      >
+        <svg width="16" height="16" viewBox="0 0 16 16" className={'shrink-0 transition-transform ' + (collapsed ? '' : 'rotate-90')} aria-hidden>
+          <path d="M6 4l4 4-4 4" fill="none" stroke="currentColor" strokeWidth="1.3" strokeLinecap="round" strokeLinejoin="round" />
+        </svg>
+        Outline
+      </button>
+      {collapsed ? null : rows.length ? (
+        <ul className="px-2 pb-2 overflow-y-auto" aria-label={`Symbols in ${fileName}`}>
+          {rows.map(({ symbol, depth }) => (
+            <li key={`${symbol.line}:${symbol.name}`}>
+              <button
+                onClick={() => onReveal(symbol)}
+                title={symbol.detail ? `${symbol.name} — ${symbol.detail}` : symbol.name}
+                aria-current={symbol === current ? 'location' : undefined}
+                style={{ paddingLeft: 4 + depth * 12 }}
+                className={
+                  'w-full flex items-center gap-1.5 pr-2 py-0.5 rounded text-left text-sm outline-none focus-visible:ring-1 focus-visible:ring-inset focus-visible:ring-accent ' +
+                  (symbol === current ? 'bg-selection text-fg' : 'text-fg-secondary hover:bg-editor')
+                }
+              >
+                <SymbolIcon kind={symbol.kind} />
+                <span className="truncate">{symbol.name}</span>
+                {symbol.detail ? <span className="truncate text-xs text-fg-muted">{symbol.detail}</span> : null}
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="px-3 pb-2 text-xs text-fg-muted">
+          {fileName ? `No symbols found in document '${fileName}'.` : 'The active editor cannot provide outline information.'}
+        </p>
+      )}
+    </section>
+  );
+}
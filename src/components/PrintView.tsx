@@ -0,0 +1,37 @@
+import { buildDocument } from '../export/document';
+import type { Resume } from '../resume/types';
+
+/** Paper layout of the resume; only visible under `@media print`, where the workbench is hidden. */
+export default function PrintView({ resume }: { resume: Resume }) {
+  const doc = buildDocument(resume);
+  return (
+    <article className="hidden print:block bg-white text-black font-[system-ui] text-[11pt] leading-snug px-2">
+      <header className="mb-3">
+        <h1 className="text-[22pt] font-bold leading-tight">{doc.name}</h1>
+        <div className="text-[12pt] text-neutral-700">{doc.label}</div>
+        {doc.summary ? <p className="mt-2">{doc.summary}</p> : null}
+      </header>
+      {doc.sections.map((section) => (
+        <section key={section.id} className="mt-3 break-inside-avoid-page">
+          <h2 className="text-[13pt] font-bold uppercase tracking-wide border-b border-neutral-400 mb-1">{section.title}</h2>
+          {section.inline ? <p>{section.inline.join(' • ')}</p> : null}
+          <ul className={section.entries?.some((e) => e.bullets) ? 'space-y-2' : ''}>
+            {section.entries?.map((entry, i) => (
+              <li key={i} className="break-inside-avoid">
+                <strong>{entry.title}</strong>
+                {entry.detail ? `${entry.separator ?? ': '}${entry.detail}` : null}
+                {entry.bullets ? (
+                  <ul className="list-disc pl-5">
+                    {entry.bullets.map((b, j) => (
+                      <li key={j}>{b}</li>
+                    ))}
+                  </ul>
+                ) : null}
+              </li>
+            ))}
+          </ul>
+        </section>
+      ))}
+    </article>
+  );
+}
@@ -0,0 +1,66 @@
+import type { Problem } from '../resume/schema';
+
+function SeverityIcon({ severity }: { severity: Problem['severity'] }) {
+  if (severity === 'error') {
+    return (
+      <svg width="14" height="14" viewBox="0 0 16 16" aria-label="Error" className="shrink-0">
+        <circle cx="8" cy="8" r="6.5" fill="none" className="stroke-error" strokeWidth="1.3" />
+        <path d="M5.5 5.5l5 5M10.5 5.5l-5 5" className="stroke-error" strokeWidth="1.3" strokeLinecap="round" />
+      </svg>
+    );
+  }
+  return (
+    <svg width="14" height="14" viewBox="0 0 16 16" aria-label="Warning" className="shrink-0">
+      <path d="M8 2l6.5 11.5h-13z" fill="none" className="stroke-warning" strokeWidth="1.3" strokeLinejoin="round" />
+      <path d="M8 6.5v3.2M8 11.6v.1" className="stroke-warning" strokeWidth="1.3" strokeLinecap="round" />
+    </svg>
+  );
+}
+
+export default function ProblemsPanel({
+  problems,
+  fileFor,
+  onSelect,
+}: {
+  problems: Problem[];
+  /** Virtual file the problem belongs to; problems without one are listed under the data source. */
+  fileFor: (problem: Problem) => string | undefined;
+  onSelect: (problem: Problem) => void;
+}) {
+  const groups = new Map<string, Problem[]>();
+  problems.forEach((p) => {
+    const file = fileFor(p) ?? 'resume.json';
+    groups.set(file, [...(groups.get(file) ?? []), p]);
+  });
+
+  return (
+    <div className="h-full overflow-y-auto pb-2 text-[13px]">
+      {problems.length ? (
+        [...groups.entries()].map(([file, list]) => (
+          <div key={file}>
+            <div className="px-3 py-1 text-fg flex items-center gap-2">
+              <span>{file}</span>
+              <span className="rounded-full bg-selection px-1.5 text-[11px] text-fg-secondary">{list.length}</span>
+            </div>
+            <ul>
+              {list.map((p, i) => (
+                <li key={`${p.path}-${i}`}>
+                  <button
+                    onClick={() => onSelect(p)}
+                    className="w-full text-left pl-7 pr-3 py-0.5 flex items-center gap-2 hover:bg-selection text-fg-secondary"
+                  >
+                    <SeverityIcon severity={p.severity} />
+                    <span className="truncate text-fg">{p.message}</span>
+                    <span className="shrink-0 text-fg-subtle">{p.path}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))
+      ) : (
+        <div className="px-3 py-1 text-fg-muted">No problems have been detected in the resume data.</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import type { LineMatch, SearchOptions } from '../search/textSearch';
+import FileIcon from './FileIcon';
+
+export type FileSearchResult<Id extends string> = { id: Id; filePath: string; matches: LineMatch[] };
+
+function ToggleButton({ label, title, active, onClick }: { label: string; title: string; active: boolean; onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      title={title}
+      aria-label={title}
+      aria-pressed={active}
+      className={
+        'h-5 min-w-5 px-0.5 rounded text-[11px] font-mono leading-none ' +
+        (active ? 'bg-accent/20 text-accent ring-1 ring-accent/60' : 'text-fg-muted hover:bg-editor')
+      }
+    >
+      {label}
+    </button>
+  );
+}
+
+/** Trims long lines to a window around the match so the match itself stays visible. */
+function Preview({ match }: { match: LineMatch }) {
+  const lead = Math.max(0, match.start - 24);
+  const before = (lead ? '…' : '') + match.text.slice(lead, match.start).trimStart();
+  return (
+    <span className="truncate">
+      {before}
+      <span className="bg-accent/30 text-fg rounded-sm">{match.text.slice(match.start, match.end)}</span>
+      {match.text.slice(match.end)}
+    </span>
+  );
+}
+
+export default function SearchView<Id extends string>({
+  query,
+  onQueryChange,
+  options,
+  onOptionsChange,
+  results,
+  error,
+  onOpen,
+}: {
+  query: string;
+  onQueryChange: (query: string) => void;
+  options: SearchOptions;
+  onOptionsChange: (options: SearchOptions) => void;
+  results: FileSearchResult<Id>[];
+  error?: string;
+  onOpen: (id: Id, line: number) => void;
+}) {
+  const [collapsed, setCollapsed] = useState<Set<Id>>(new Set());
+  const total = results.reduce((n, r) => n + r.matches.length, 0);
+
+  function toggleGroup(id: Id) {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  return (
+    <div className="flex flex-col min-h-0">
+      <div className="px-3 py-2 text-xs uppercase tracking-wide text-fg-muted">Search</div>
+      <div className="px-2">
+        <div className="flex items-center gap-1 bg-input rounded px-2 py-1 focus-within:ring-1 focus-within:ring-accent/70">
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => onQueryChange(e.target.value)}
+            placeholder="Search"
+            aria-label="Search across sections"
+            className="bg-transparent outline-none text-sm w-full min-w-0 placeholder:text-fg-muted text-fg"
+          />
+          <ToggleButton
+            label="Aa"
+            title="Match Case"
+            active={options.caseSensitive}
+            onClick={() => onOptionsChange({ ...options, caseSensitive: !options.caseSensitive })}
+          />
+          <ToggleButton
+            label="ab"
+            title="Match Whole Word"
+            active={options.wholeWord}
+            onClick={() => onOptionsChange({ ...options, wholeWord: !options.wholeWord })}
+          />
+          <ToggleButton
+            label=".*"
+            title="Use Regular Expression"
+            active={options.regex}
+            onClick={() => onOptionsChange({ ...options, regex: !options.regex })}
+          />
+        </div>
+        {error ? (
+          <div className="mt-1 rounded border border-error/60 bg-error/10 px-2 py-1 text-[12px] text-error">{error}</div>
+        ) : query ? (
+          <div className="mt-2 px-1 text-[12px] text-fg-muted">
+            {total ? `${total} result${total === 1 ? '' : 's'} in ${results.length} file${results.length === 1 ? '' : 's'}` : 'No results found.'}
+          </div>
+        ) : null}
+      </div>
+      <ul className="mt-1 pb-4 overflow-y-auto text-[13px]">
+        {results.map((r) => (
+          <li key={r.id}>
+            <button onClick={() => toggleGroup(r.id)} className="w-full text-left flex items-center gap-1.5 px-2 py-0.5 hover:bg-editor text-fg">
+              <span className={'text-[10px] text-fg-muted transition-transform ' + (collapsed.has(r.id) ? '' : 'rotate-90')}>▶</span>
+              <FileIcon filePath={r.filePath} size={16} className="shrink-0" />
+              <span className="truncate">{r.filePath}</span>
+              <span className="ml-auto rounded-full bg-selection px-1.5 text-[11px] text-fg-secondary">{r.matches.length}</span>
+            </button>
+            {!collapsed.has(r.id) && (
+              <ul>
+                {r.matches.map((m) => (
+                  <li key={`${m.line}:${m.start}`}>
+                    <button
+                      onClick={() => onOpen(r.id, m.line)}
+                      title={`Line ${m.line + 1}`}
+                      className="w-full text-left flex pl-9 pr-2 py-0.5 hover:bg-editor text-fg-secondary whitespace-pre"
+                    >
+                      <Preview match={m} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import type { GitLogRow, GraphLine } from '../resume/gitLog';
+
+const ROW_HEIGHT = 22;
+const LANE_WIDTH = 12;
+
+/** Lane colours, repeated when there are more lanes than colours. */
+const LANE_COLORS = ['text-accent', 'text-syntax-type', 'text-syntax-string', 'text-syntax-property', 'text-syntax-keyword', 'text-syntax-number'];
+
+const laneX = (column: number) => column * LANE_WIDTH + LANE_WIDTH / 2;
+const laneColor = (column: number) => LANE_COLORS[column % LANE_COLORS.length];
+
+function strokePath({ from, to, part }: GraphLine): string {
+  const middle = ROW_HEIGHT / 2;
+  if (part === 'full') return `M${laneX(from)} 0V${ROW_HEIGHT}`;
+  if (part === 'top') return `M${laneX(from)} 0V${middle}`;
+  return `M${laneX(from)} ${middle}C${laneX(from)} ${ROW_HEIGHT} ${laneX(to)} ${middle} ${laneX(to)} ${ROW_HEIGHT}`;
+}
+
+/** The graph beside one commit: its strokes, then the commit's dot on top. */
+function GraphCell({ row, lanes }: { row: GitLogRow; lanes: number }) {
+  const { commit, column } = row;
+  return (
+    <svg width={lanes * LANE_WIDTH} height={ROW_HEIGHT} className="shrink-0" aria-hidden>
+      {row.lines.map((line) => (
+        // A curve takes the colour of the lane it runs into.
+        <path key={`${line.from}-${line.to}-${line.part}`} d={strokePath(line)} fill="none" strokeWidth="1.5" stroke="currentColor" className={laneColor(line.part === 'bottom' ? Math.max(line.from, line.to) : line.to)} />
+      ))}
+      <circle
+        cx={laneX(column)}
+        cy={ROW_HEIGHT / 2}
+        r={commit.kind === 'merge' || commit.kind === 'root' ? 4 : 3}
+        strokeWidth="1.5"
+        stroke="currentColor"
+        className={`${laneColor(column)} ${commit.kind === 'highlight' ? 'fill-editor' : 'fill-current'}`}
+      />
+    </svg>
+  );
+}
+
+/**
+ * The Source Control view: work and education history as a commit graph, newest
+ * first. Selecting a commit opens it in an editor tab as `git show` would print it.
+ */
+export default function SourceControlView({ rows, activeHash, onOpen }: { rows: GitLogRow[]; activeHash?: string; onOpen: (hash: string) => void }) {
+  const lanes = Math.max(1, ...rows.flatMap((r) => [r.column, ...r.lines.flatMap((l) => [l.from, l.to])].map((c) => c + 1)));
+  return (
+    <div className="flex flex-col min-h-0">
+      <div className="px-3 py-2 text-xs uppercase tracking-wide text-fg-muted">Source Control</div>
+      {rows.length ? (
+        <ul className="pb-4 overflow-y-auto text-[13px]" aria-label="Commits">
+          {rows.map((row) => {
+            const { commit } = row;
+            const short = commit.hash.slice(0, 7);
+            return (
+              <li key={commit.hash}>
+                <button
+                  onClick={() => onOpen(commit.hash)}
+                  title={`${commit.subject}\n${commit.branch} · ${commit.approximate ? 'about ' : ''}${commit.date}`}
+                  aria-current={activeHash === commit.hash ? 'true' : undefined}
+                  className={
+                    'w-full text-left flex items-center gap-1.5 pl-2 pr-2 hover:bg-editor ' +
+                    (activeHash === commit.hash ? 'bg-selection text-fg' : 'text-fg-secondary')
+                  }
+                  style={{ height: ROW_HEIGHT }}
+                >
+                  <GraphCell row={row} lanes={lanes} />
+                  <span className="truncate">{commit.subject}</span>
+                  {commit.refs.map((ref) => (
+                    <span key={ref} className="shrink-0 rounded-full border border-accent/60 px-1.5 text-[10px] leading-4 text-accent">
+                      {ref}
+                    </span>
+                  ))}
+                  <span className="ml-auto shrink-0 font-mono text-[11px] text-fg-muted">{short}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="px-3 text-[12px] text-fg-muted">No work or education history to show.</p>
+      )}
+    </div>
+  );
+}
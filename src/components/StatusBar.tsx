@@ -0,0 +1,49 @@
+import type { StatusBarContext, StatusBarEntry, StatusBarItem } from '../statusbar/items';
+
+function Entry({ entry, onRun }: { entry: StatusBarEntry; onRun: (commandId: string) => void }) {
+  const className = 'h-full flex items-center px-2 whitespace-nowrap';
+  if (!entry.command) {
+    return (
+      <span className={className} title={entry.tooltip}>
+        {entry.text}
+      </span>
+    );
+  }
+  const command = entry.command;
+  return (
+    <button
+      onClick={() => onRun(command)}
+      title={entry.tooltip}
+      aria-label={entry.tooltip ?? entry.text}
+      className={className + ' hover:bg-selection hover:text-fg outline-none focus-visible:ring-1 focus-visible:ring-inset focus-visible:ring-accent'}
+    >
+      {entry.text}
+    </button>
+  );
+}
+
+export default function StatusBar({
+  items,
+  context,
+  onRun,
+}: {
+  items: StatusBarItem[];
+  context: StatusBarContext;
+  onRun: (commandId: string) => void;
+}) {
+  const side = (alignment: StatusBarItem['alignment']) =>
+    items
+      .filter((item) => item.alignment === alignment)
+      .sort((a, b) => b.priority - a.priority)
+      .flatMap((item) => {
+        const entry = item.render(context);
+        return entry ? [<Entry key={item.id} entry={entry} onRun={onRun} />] : [];
+      });
+
+  return (
+    <footer className="h-7 shrink-0 border-t border-divider bg-workbench flex items-stretch justify-between text-[12px] text-fg-muted select-none" aria-label="Status Bar">
+      <div className="flex items-stretch min-w-0 overflow-hidden">{side('left')}</div>
+      <div className="flex items-stretch min-w-0 overflow-hidden">{side('right')}</div>
+    </footer>
+  );
+}
@@ -0,0 +1,81 @@
+import { useEffect, useRef, useState } from 'react';
+import { complete, runCommand, type ShellContext, type TerminalLine } from '../terminal/shell';
+
+const WELCOME: TerminalLine[] = [{ text: "Type 'help' to see the available commands.", kind: 'output' }];
+
+export default function Terminal({ context, prompt, active }: { context: ShellContext; prompt: string; active: boolean }) {
+  const [lines, setLines] = useState<TerminalLine[]>(WELCOME);
+  const [input, setInput] = useState('');
+  const [history, setHistory] = useState<string[]>([]);
+  /** Position while browsing history with the arrow keys; `history.length` means the live input. */
+  const [historyIndex, setHistoryIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (active) inputRef.current?.focus();
+  }, [active]);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+  }, [lines]);
+
+  function submit() {
+    const echo: TerminalLine = { text: `${prompt}${input}`, kind: 'input' };
+    const result = runCommand(input, context);
+    setLines((prev) => (result.clear ? [] : [...prev, echo, ...result.lines]));
+    if (input.trim()) {
+      const next = [...history.filter((h) => h !== input), input];
+      setHistory(next);
+      setHistoryIndex(next.length);
+    } else {
+      setHistoryIndex(history.length);
+    }
+    setInput('');
+  }
+
+  function onKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      submit();
+    } else if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+      e.preventDefault();
+      const next = Math.min(Math.max(historyIndex + (e.key === 'ArrowUp' ? -1 : 1), 0), history.length);
+      setHistoryIndex(next);
+      setInput(history[next] ?? '');
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      const result = complete(input, context);
+      setInput(result.input);
+      if (result.candidates.length) {
+        setLines((prev) => [...prev, { text: `${prompt}${input}`, kind: 'input' }, { text: result.candidates.join('  '), kind: 'output' }]);
+      }
+    } else if (e.key === 'l' && e.ctrlKey) {
+      e.preventDefault();
+      setLines([]);
+    }
+  }
+
+  return (
+    <div ref={scrollRef} className="h-full overflow-y-auto px-3 py-1 font-mono text-[13px] leading-5 cursor-text" onClick={() => inputRef.current?.focus()}>
+      {lines.map((line, i) => (
+        <div key={i} className={'whitespace-pre-wrap break-words ' + (line.kind === 'error' ? 'text-error' : line.kind === 'input' ? 'text-fg' : 'text-fg-secondary')}>
+          {line.text || ' '}
+        </div>
+      ))}
+      <div className="flex">
+        <span className="text-accent whitespace-pre">{prompt}</span>
+        <input
+          ref={inputRef}
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={onKeyDown}
+          spellCheck={false}
+          autoComplete="off"
+          aria-label="Terminal input"
+          className="flex-1 min-w-0 bg-transparent outline-none text-fg caret-accent"
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { useEffect, useRef, useState } from 'react';
+import type { Theme, ThemePreference } from '../themes';
+import { useMenuKeyboard } from './useMenuKeyboard';
+
+export default function ThemePicker({
+  themes,
+  preference,
+  onChange,
+}: {
+  themes: Theme[];
+  preference: ThemePreference;
+  onChange: (preference: ThemePreference) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const rootRef = useRef<HTMLDivElement | null>(null);
+  const menuRef = useRef<HTMLUListElement | null>(null);
+  const onMenuKeyDown = useMenuKeyboard(menuRef, open, () => setOpen(false));
+
+  useEffect(() => {
+    if (!open) return;
+    const onDown = (e: MouseEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', onDown);
+    return () => document.removeEventListener('mousedown', onDown);
+  }, [open]);
+
+  const options: Array<{ id: ThemePreference; label: string }> = [{ id: 'system', label: 'Follow System' }, ...themes];
+
+  return (
+    <div className="relative" ref={rootRef}>
+      <button
+        onClick={() => setOpen((v) => !v)}
+        aria-label="Color Theme"
+        aria-haspopup="menu"
+        aria-expanded={open}
+        title="Color Theme"
+        className="h-7 w-7 grid place-items-center rounded text-fg hover:bg-selection transition-colors"
+      >
+        <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.6" aria-hidden>
+          <circle cx="12" cy="12" r="8.5" />
+          <path d="M12 3.5a8.5 8.5 0 0 1 0 17z" fill="currentColor" />
+        </svg>
+      </button>
+      {open && (
+        <ul
+          ref={menuRef}
+          onKeyDown={onMenuKeyDown}
+          className="absolute right-0 mt-1 z-50 w-48 bg-editor border border-divider rounded shadow-lg py-1"
+          role="menu"
+          aria-label="Color Theme"
+        >
+          {options.map((o) => (
+            <li key={o.id} role="none">
+              <button
+                role="menuitemradio"
+                aria-checked={preference === o.id}
+                tabIndex={-1}
+                onClick={() => {
+                  onChange(o.id);
+                  setOpen(false);
+                }}
+                className="w-full text-left px-3 py-1.5 text-[13px] text-fg hover:bg-selection focus:bg-selection outline-none flex items-center gap-2"
+              >
+                <span className="w-3 text-accent" aria-hidden>{preference === o.id ? '✓' : ''}</span>
+                {o.label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { currentMonth, experienceMonths, formatDuration } from '../resume/dates';
+import { TIMELINE_LANES, timelineItems, workGaps, type TimelineLane } from '../resume/timeline';
+import type { SourceIndexes } from '../resume/schema';
+import type { Resume } from '../resume/types';
+
+/** Pixels per month at the furthest and closest zoom. */
+const MIN_ZOOM = 2;
+const MAX_ZOOM = 64;
+const ROW_HEIGHT = 26;
+const AXIS_HEIGHT = 22;
+
+const LANE_STYLES: Record<TimelineLane, string> = {
+  work: 'border-syntax-type bg-syntax-type/20',
+  education: 'border-syntax-property bg-syntax-property/20',
+  certificates: 'border-syntax-string bg-syntax-string',
+};
+
+/**
+ * The Timeline editor: roles, education and certifications along a horizontal
+ * axis of months, so overlaps and the gaps between roles stand out. Zooms with
+ * the toolbar, Ctrl/⌘ + wheel, or + and − while focused; entries open their file.
+ */
+export default function Timeline({ resume, sourceIndexes, onOpen }: { resume: Resume; sourceIndexes: SourceIndexes; onOpen: (path: string) => void }) {
+  const [monthWidth, setMonthWidth] = useState(8);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  /** Month to keep under the same point of the viewport across a zoom. */
+  const anchorRef = useRef<{ month: number; offset: number } | null>(null);
+
+  const now = new Date();
+  const items = timelineItems(resume, now, sourceIndexes);
+  const gaps = workGaps(items);
+  const today = currentMonth(now);
+  // Whole years either side of the data, so the edges fall on year ticks.
+  const first = Math.floor(Math.min(today, ...items.map((i) => i.start)) / 12) * 12;
+  const last = Math.ceil(Math.max(today + 1, ...items.map((i) => i.end)) / 12) * 12;
+  const x = (month: number) => (month - first) * monthWidth;
+  const yearStep = [1, 2, 5, 10].find((step) => step * 12 * monthWidth >= 48) ?? 10;
+  const years = Array.from({ length: (last - first) / 12 + 1 }, (_, i) => first / 12 + i).filter((y) => y % yearStep === 0);
+  const lanes = TIMELINE_LANES.map((lane) => {
+    const laneItems = items.filter((i) => i.lane === lane.id);
+    return { ...lane, items: laneItems, height: (Math.max(0, ...laneItems.map((i) => i.row)) + 1) * ROW_HEIGHT + 8 };
+  });
+
+  function zoomTo(width: number, offset?: number) {
+    const el = scrollRef.current;
+    if (el) {
+      const at = offset ?? el.clientWidth / 2;
+      anchorRef.current = { month: (el.scrollLeft + at) / monthWidth, offset: at };
+    }
+    setMonthWidth(Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, width)));
+  }
+
+  function fit() {
+    const el = scrollRef.current;
+    if (!el) return;
+    anchorRef.current = { month: 0, offset: 0 };
+    setMonthWidth(Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, el.clientWidth / (last - first))));
+  }
+
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el || !anchorRef.current) return;
+    el.scrollLeft = anchorRef.current.month * monthWidth - anchorRef.current.offset;
+    anchorRef.current = null;
+  }, [monthWidth]);
+
+  // React's wheel listeners are passive, and Ctrl + wheel has to be kept from zooming the page.
+  const zoomRef = useRef(zoomTo);
+  zoomRef.current = zoomTo;
+  const widthRef = useRef(monthWidth);
+  widthRef.current = monthWidth;
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      zoomRef.current(widthRef.current * (e.deltaY < 0 ? 1.25 : 0.8), e.clientX - el.getBoundingClientRect().left);
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  }, []);
+
+  function onKeyDown(e: React.KeyboardEvent) {
+    if (e.key === '+' || e.key === '=') zoomTo(monthWidth * 1.25);
+    else if (e.key === '-') zoomTo(monthWidth * 0.8);
+    else if (e.key === '0') fit();
+    else return;
+    e.preventDefault();
+  }
+
+  const toolButton = 'rounded px-2 py-0.5 text-fg-secondary hover:bg-selection hover:text-fg outline-none focus-visible:ring-1 focus-visible:ring-accent';
+
+  return (
+    <div className="flex h-full flex-col text-[13px] text-fg">
+      <div className="flex items-center gap-2 border-b border-divider px-4 py-2">
+        <span className="text-fg-secondary">
+          {resume.work.length ? `${formatDuration(experienceMonths(resume.work, now))} experience` : 'No work experience'}
+        </span>
+        <span className="flex-1" />
+        <button onClick={() => zoomTo(monthWidth * 0.8)} className={toolButton} aria-label="Zoom out" title="Zoom Out (−)">
+          −
+        </button>
+        <button onClick={() => zoomTo(monthWidth * 1.25)} className={toolButton} aria-label="Zoom in" title="Zoom In (+)">
+          +
+        </button>
+        <button onClick={fit} className={toolButton} title="Fit to Width (0)">
+          Fit
+        </button>
+      </div>
+      <div className="flex min-h-0 flex-1 overflow-y-auto">
+        <div className="w-28 shrink-0 border-r border-divider text-xs text-fg-muted" style={{ paddingTop: AXIS_HEIGHT }}>
+          {lanes.map((lane) => (
+            <div key={lane.id} className="border-b border-divider px-3 py-1.5" style={{ height: lane.height }}>
+              {lane.title}
+            </div>
+          ))}
+        </div>
+        <div
+          ref={scrollRef}
+          tabIndex={0}
+          onKeyDown={onKeyDown}
+          aria-label="Timeline"
+          className="min-w-0 flex-1 self-start overflow-x-auto outline-none focus-visible:ring-1 focus-visible:ring-inset focus-visible:ring-accent/70"
+        >
+          <div className="relative" style={{ width: x(last) }}>
+            <div className="relative text-[11px] text-fg-subtle" style={{ height: AXIS_HEIGHT }}>
+              {years.map((year) => (
+                <span key={year} className="absolute top-1 pl-1" style={{ left: x(year * 12) }}>
+                  {year}
+                </span>
+              ))}
+            </div>
+            {years.map((year) => (
+              <div key={year} aria-hidden className="absolute bottom-0 border-l border-divider/60" style={{ left: x(year * 12), top: AXIS_HEIGHT }} />
+            ))}
+            <div aria-hidden title="Today" className="absolute bottom-0 top-0 border-l border-accent/70" style={{ left: x(today + 0.5) }} />
+            {lanes.map((lane) => (
+              <div key={lane.id} role="list" aria-label={lane.title} className="relative border-b border-divider" style={{ height: lane.height }}>
+                {lane.id === 'work' &&
+                  gaps.map((gap) => (
+                    <div
+                      key={gap.start}
+                      title={`No role for ${formatDuration(gap.end - gap.start)}`}
+                      className="absolute truncate rounded-sm border border-dashed border-warning/60 px-1 text-[11px] leading-[18px] text-warning"
+                      style={{ left: x(gap.start), width: x(gap.end) - x(gap.start), top: 4, height: ROW_HEIGHT - 6 }}
+                    >
+                      {formatDuration(gap.end - gap.start)} gap
+                    </div>
+                  ))}
+                {lane.items.map((item) => {
+                  const label = item.detail ? `${item.title} — ${item.detail}` : item.title;
+                  return (
+                    <div key={item.path} role="listitem" className="absolute" style={{ left: x(item.start), top: item.row * ROW_HEIGHT + 4 }}>
+                      <button
+                        onClick={() => onOpen(item.path)}
+                        title={`${label}\n${item.when}`}
+                        aria-label={`${label}, ${item.when}`}
+                        className="flex items-center gap-1.5 text-left text-[11px] outline-none focus-visible:ring-1 focus-visible:ring-accent rounded-sm"
+                      >
+                        {item.point ? (
+                          <>
+                            <span className={`size-2.5 shrink-0 rotate-45 border ${LANE_STYLES[item.lane]}`} />
+                            <span className="whitespace-nowrap text-fg-secondary hover:text-fg">{label}</span>
+                          </>
+                        ) : (
+                          <span
+                            className={`block truncate rounded-sm border px-1 leading-[18px] text-fg hover:brightness-125 ${LANE_STYLES[item.lane]}`}
+                            style={{ width: Math.max(x(item.end) - x(item.start), 4) }}
+                          >
+                            {label}
+                          </span>
+                        )}
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+export type ToastAction = { label: string; run: () => void };
+
+/** A notification in the bottom-right corner, above the status bar, as in VS Code. */
+export default function Toast({
+  message,
+  severity = 'info',
+  actions = [],
+  onDismiss,
+}: {
+  message: string;
+  severity?: 'info' | 'warning';
+  actions?: ToastAction[];
+  onDismiss: () => void;
+}) {
+  return (
+    <div
+      role="status"
+      className="fixed right-3 bottom-10 z-50 w-80 max-w-[calc(100vw-1.5rem)] rounded border border-divider bg-workbench text-fg text-[13px] shadow-2xl"
+    >
+      <div className="flex items-start gap-2 px-3 pt-3">
+        <span aria-hidden className={severity === 'warning' ? 'text-warning' : 'text-accent'}>
+          {severity === 'warning' ? '⚠' : 'ⓘ'}
+        </span>
+        <p className="flex-1 min-w-0 break-words">{message}</p>
+        <button onClick={onDismiss} aria-label="Dismiss notification" className="text-fg-muted hover:text-fg">
+          ×
+        </button>
+      </div>
+      <div className="flex justify-end gap-2 px-3 py-2">
+        {actions.map((action) => (
+          <button
+            key={action.label}
+            onClick={() => {
+              onDismiss();
+              action.run();
+            }}
+            className="rounded bg-accent/20 px-2 py-0.5 text-fg hover:bg-accent/30 outline-none focus-visible:ring-1 focus-visible:ring-accent"
+          >
+            {action.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { useEffect, type RefObject } from 'react';
+
+const ITEM_SELECTOR = '[role^="menuitem"]:not([disabled])';
+
+/**
+ * Keyboard support for a WAI-ARIA menu: focus moves to the first item when the
+ * menu opens and back to where it came from when it closes, the arrow keys,
+ * Home and End move between items, and Escape or Tab close the menu. Returns the
+ * menu's `onKeyDown` handler.
+ */
+export function useMenuKeyboard(menuRef: RefObject<HTMLElement | null>, open: boolean, onClose: () => void) {
+  useEffect(() => {
+    if (!open) return;
+    const menu = menuRef.current;
+    const previous = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    menu?.querySelector<HTMLElement>(ITEM_SELECTOR)?.focus();
+    return () => {
+      // Only take focus back if it is still in the menu (or was lost with it), not if the user clicked elsewhere.
+      const current = document.activeElement;
+      if (!current || current === document.body || menu?.contains(current)) previous?.focus();
+    };
+  }, [open, menuRef]);
+
+  return (e: React.KeyboardEvent<HTMLElement>) => {
+    const items = [...(menuRef.current?.querySelectorAll<HTMLElement>(ITEM_SELECTOR) ?? [])];
+    const index = items.indexOf(document.activeElement as HTMLElement);
+    const focusAt = (i: number) => items[(i + items.length) % items.length]?.focus();
+    switch (e.key) {
+      case 'ArrowDown':
+        focusAt(index + 1);
+        break;
+      case 'ArrowUp':
+        focusAt(index === -1 ? -1 : index - 1);
+        break;
+      case 'Home':
+        focusAt(0);
+        break;
+      case 'End':
+        focusAt(-1);
+        break;
+      case 'Escape':
+      case 'Tab':
+        onClose();
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+  };
+}
@@ -0,0 +1,63 @@
+export type TreeNode<T> =
+  | { kind: 'folder'; path: string; name: string; children: TreeNode<T>[] }
+  | { kind: 'file'; path: string; name: string; item: T };
+
+export type TreeRow<T> = {
+  node: TreeNode<T>;
+  depth: number;
+  /** Path of the containing folder, or null at the root. */
+  parent: string | null;
+  /** 1-based position among its siblings and their count, for `aria-posinset` and `aria-setsize`. */
+  position: number;
+  siblings: number;
+};
+
+/**
+ * Builds a folder tree from slash-separated file paths. Folders come first, as in
+ * VS Code; otherwise items keep their given order. `folders` are always listed,
+ * even while empty.
+ */
+export function buildTree<T>(items: T[], pathOf: (item: T) => string, folders: string[] = []): TreeNode<T>[] {
+  const root: TreeNode<T>[] = [];
+
+  function folderAt(path: string): TreeNode<T>[] {
+    let level = root;
+    let current = '';
+    path.split('/').forEach((name) => {
+      current = current ? `${current}/${name}` : name;
+      let folder = level.find((n) => n.kind === 'folder' && n.path === current);
+      if (!folder) {
+        folder = { kind: 'folder', path: current, name, children: [] };
+        level.push(folder);
+      }
+      level = (folder as Extract<TreeNode<T>, { kind: 'folder' }>).children;
+    });
+    return level;
+  }
+
+  folders.forEach(folderAt);
+  items.forEach((item) => {
+    const path = pathOf(item);
+    const slash = path.lastIndexOf('/');
+    const level = slash === -1 ? root : folderAt(path.slice(0, slash));
+    level.push({ kind: 'file', path, name: path.slice(slash + 1), item });
+  });
+
+  const sort = (nodes: TreeNode<T>[]): TreeNode<T>[] => {
+    nodes.forEach((n) => n.kind === 'folder' && sort(n.children));
+    return nodes.sort((a, b) => (a.kind === b.kind ? 0 : a.kind === 'folder' ? -1 : 1));
+  };
+  return sort(root);
+}
+
+/** Flattens the rows currently on screen, skipping the contents of collapsed folders. */
+export function visibleRows<T>(nodes: TreeNode<T>[], collapsed: Set<string>, depth = 0, parent: string | null = null): TreeRow<T>[] {
+  return nodes.flatMap((node, i) => [
+    { node, depth, parent, position: i + 1, siblings: nodes.length },
+    ...(node.kind === 'folder' && !collapsed.has(node.path) ? visibleRows(node.children, collapsed, depth + 1, node.path) : []),
+  ]);
+}
+
+export function folderPaths<T>(nodes: TreeNode<T>[]): string[] {
+  return nodes.flatMap((n) => (n.kind === 'folder' ? [n.path, ...folderPaths(n.children)] : []));
+}
@@ -0,0 +1,130 @@
+import { formatDate, formatDateRange, formatDuration, tenureMonths } from '../resume/dates';
+import type { Profile, Resume } from '../resume/types';
+
+/**
+ * Format-neutral outline of the resume shared by the plain-text export and the
+ * print view, so they list the same sections in the same order.
+ */
+export type DocumentEntry = {
+  title: string;
+  detail?: string;
+  /** Joins title and detail: `:` for key/value lists, an em dash for descriptive ones. */
+  separator?: ': ' | ' — ';
+  bullets?: string[];
+};
+
+export type DocumentSection = {
+  id: string;
+  title: string;
+  entries?: DocumentEntry[];
+  /** Short items rendered on a single line, e.g. interests. */
+  inline?: string[];
+};
+
+export type ResumeDocument = {
+  name: string;
+  label: string;
+  summary?: string;
+  sections: DocumentSection[];
+};
+
+export function profileValue(profile: Profile): string {
+  if (profile.url?.startsWith('mailto:')) return profile.url.slice('mailto:'.length);
+  return profile.url ?? profile.username ?? '';
+}
+
+export function buildDocument(resume: Resume): ResumeDocument {
+  const sections: DocumentSection[] = [
+    {
+      id: 'contact',
+      title: 'Contact',
+      entries: (resume.basics.profiles ?? []).map((p) => ({ title: p.network, detail: profileValue(p), separator: ': ' })),
+    },
+    {
+      id: 'skills',
+      title: 'Skills',
+      entries: resume.skills.map((s) => ({ title: s.name, detail: s.keywords.join(', '), separator: ': ' })),
+    },
+    {
+      id: 'experience',
+      title: 'Work Experience',
+      entries: resume.work.map((w) => {
+        const tenure = tenureMonths(w.startDate, w.endDate);
+        const dates = `${formatDateRange(w.startDate, w.endDate)}${tenure === null ? '' : ` · ${formatDuration(tenure)}`}`;
+        return { title: `${w.position} — ${w.name} (${dates})`, bullets: w.highlights };
+      }),
+    },
+    {
+      id: 'projects',
+      title: 'Projects',
+      entries: resume.projects.map((p) => ({
+        title: `${p.name}${p.year ? ` (${p.year})` : ''}`,
+        detail: [p.summary, p.technologies?.join(', ')].filter(Boolean).join(' — '),
+        separator: ': ',
+      })),
+    },
+    {
+      id: 'training',
+      title: 'Training & Certifications',
+      entries: resume.certificates.map((c) => ({
+        title: c.name,
+        detail: [c.issuer, c.date ? `(${formatDate(c.date)})` : ''].filter(Boolean).join(' '),
+        separator: ' — ',
+      })),
+    },
+    {
+      id: 'education',
+      title: 'Education',
+      entries: resume.education.map((e) => ({
+        title: [e.studyType, e.area].filter(Boolean).join(' | ') || e.institution,
+        detail: [
+          `${e.studyType || e.area ? e.institution : ''}${e.startDate || e.endDate ? ` (${formatDateRange(e.startDate, e.endDate)})` : ''}`.trim(),
+          e.score,
+        ]
+          .filter(Boolean)
+          .join(' — '),
+        separator: ' — ',
+      })),
+    },
+    {
+      id: 'volunteer',
+      title: 'Volunteer',
+      entries: (resume.volunteer ?? []).map((v) => ({
+        title: `${v.position} — ${v.organization}${v.startDate || v.endDate ? ` (${formatDateRange(v.startDate, v.endDate)})` : ''}`,
+        detail: v.summary,
+        separator: ': ',
+        bullets: v.highlights?.length ? v.highlights : undefined,
+      })),
+    },
+    {
+      id: 'awards',
+      title: 'Awards',
+      entries: (resume.awards ?? []).map((a) => ({
+        title: a.title,
+        detail: [[a.awarder, a.date ? `(${formatDate(a.date)})` : ''].filter(Boolean).join(' '), a.summary].filter(Boolean).join(' — '),
+        separator: ' — ',
+      })),
+    },
+    {
+      id: 'publications',
+      title: 'Publications',
+      entries: (resume.publications ?? []).map((p) => ({
+        title: p.name,
+        detail: [[p.publisher, p.releaseDate ? `(${formatDate(p.releaseDate)})` : ''].filter(Boolean).join(' '), p.summary, p.url].filter(Boolean).join(' — '),
+        separator: ' — ',
+      })),
+    },
+    {
+      id: 'languages',
+      title: 'Languages',
+      entries: (resume.languages ?? []).map((l) => ({ title: l.language, detail: l.fluency, separator: ': ' })),
+    },
+  ];
+  if (resume.interests?.length) sections.push({ id: 'interests', title: 'Interests', inline: resume.interests });
+  return {
+    name: resume.basics.name,
+    label: resume.basics.label,
+    summary: resume.basics.summary,
+    sections: sections.filter((s) => s.inline?.length || s.entries?.length),
+  };
+}
@@ -0,0 +1,11 @@
+export function downloadFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download after `click` returns, and revoking the URL before then cancels it.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,26 @@
+import type { Resume } from '../resume/types';
+import { buildDocument, type DocumentEntry } from './document';
+
+// The Markdown export is `resumeToMarkdown` from resume/markdown.ts, the same document as RESUME.md.
+
+function entryLine(entry: DocumentEntry): string {
+  return entry.detail ? `${entry.title}${entry.separator ?? ': '}${entry.detail}` : entry.title;
+}
+
+export function toPlainText(resume: Resume): string {
+  const doc = buildDocument(resume);
+  const heading = (title: string) => [title.toUpperCase(), '-'.repeat(title.length)];
+  const out = [doc.name.toUpperCase(), doc.label, ''];
+  if (doc.summary) out.push(doc.summary, '');
+  doc.sections.forEach((section) => {
+    out.push(...heading(section.title));
+    if (section.inline) out.push(section.inline.join(', '));
+    section.entries?.forEach((entry) => {
+      out.push(entryLine(entry));
+      entry.bullets?.forEach((b) => out.push(`  • ${b}`));
+      if (entry.bullets) out.push('');
+    });
+    if (out[out.length - 1] !== '') out.push('');
+  });
+  return out.join('\n');
+}
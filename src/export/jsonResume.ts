@@ -0,0 +1,66 @@
+import type { Resume } from '../resume/types';
+
+const SCHEMA_URL = 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json';
+
+/** Drops undefined, null and empty-string values so optional fields are simply absent. */
+function compact<T extends Record<string, unknown>>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined && v !== null && v !== '')) as Partial<T>;
+}
+
+/**
+ * Maps our resume shape onto the jsonresume.org schema: email and phone
+ * move from `profiles` into `basics`, project fields are renamed and an
+ * open-ended `endDate: null` becomes an absent end date.
+ */
+export function toJsonResume(resume: Resume) {
+  const profiles = resume.basics.profiles ?? [];
+  const byNetwork = (network: string) => profiles.find((p) => p.network.toLowerCase() === network);
+  const email = byNetwork('email');
+  return {
+    $schema: SCHEMA_URL,
+    basics: compact({
+      name: resume.basics.name,
+      label: resume.basics.label,
+      summary: resume.basics.summary,
+      email: email?.url?.replace(/^mailto:/, '') ?? email?.username,
+      phone: byNetwork('phone')?.username,
+      location: resume.basics.location?.country ? { countryCode: resume.basics.location.country } : undefined,
+      profiles: profiles
+        .filter((p) => !['email', 'phone'].includes(p.network.toLowerCase()))
+        .map((p) => compact({ network: p.network, username: p.username, url: p.url })),
+    }),
+    work: resume.work.map((w) => compact({ name: w.name, position: w.position, startDate: w.startDate, endDate: w.endDate, highlights: w.highlights })),
+    projects: resume.projects.map((p) =>
+      compact({
+        name: p.name,
+        description: p.summary,
+        keywords: p.technologies?.length ? p.technologies : undefined,
+        startDate: p.year ? String(p.year) : undefined,
+        url: p.url,
+      }),
+    ),
+    education: resume.education.map((e) =>
+      compact({ institution: e.institution, area: e.area, studyType: e.studyType, startDate: e.startDate, endDate: e.endDate, score: e.score }),
+    ),
+    certificates: resume.certificates.map((c) => compact({ name: c.name, issuer: c.issuer, date: c.date })),
+    volunteer: (resume.volunteer ?? []).map((v) =>
+      compact({
+        organization: v.organization,
+        position: v.position,
+        url: v.url,
+        startDate: v.startDate,
+        endDate: v.endDate,
+        summary: v.summary,
+        highlights: v.highlights?.length ? v.highlights : undefined,
+      }),
+    ),
+    awards: (resume.awards ?? []).map((a) => compact({ title: a.title, date: a.date, awarder: a.awarder, summary: a.summary })),
+    publications: (resume.publications ?? []).map((p) =>
+      compact({ name: p.name, publisher: p.publisher, releaseDate: p.releaseDate, url: p.url, summary: p.summary }),
+    ),
+    skills: resume.skills.map((s) => ({ name: s.name, keywords: s.keywords })),
+    languages: (resume.languages ?? []).map((l) => compact({ language: l.language, fluency: l.fluency })),
+    interests: (resume.interests ?? []).map((name) => ({ name })),
+    meta: compact({ version: 'v1.0.0', lastModified: new Date().toISOString() }),
+  };
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { findLinks, isSafeLink, linkSegments } from './links';
+
+const hrefs = (line: string, known = [] as { text: string; href: string }[]) => findLinks([line], known)[0].map((l) => [line.slice(l.start, l.end), l.href]);
+
+describe('isSafeLink', () => {
+  it('allows web, mail and phone links only', () => {
+    ['https://example.com', 'http://example.com', 'mailto:ada@example.com', 'tel:+441234'].forEach((href) => expect(isSafeLink(href)).toBe(true));
+    ['javascript:alert(1)', 'JavaScript:alert(1)', 'data:text/html,hi', 'vbscript:x', '/resume.json', 'example.com'].forEach((href) =>
+      expect(isSafeLink(href)).toBe(false),
+    );
+  });
+});
+
+describe('findLinks', () => {
+  it('finds URLs, domains, email addresses and phone numbers', () => {
+    expect(hrefs('See https://example.com/a, www.example.org or github.com/ada.')).toEqual([
+      ['https://example.com/a', 'https://example.com/a'],
+      ['www.example.org', 'https://www.example.org'],
+      ['github.com/ada', 'https://github.com/ada'],
+    ]);
+    expect(hrefs('ada@example.com, +44 20 7946 0958')).toEqual([
+      ['ada@example.com', 'mailto:ada@example.com'],
+      ['+44 20 7946 0958', 'tel:+442079460958'],
+    ]);
+  });
+
+  it('links the whole of a Markdown link to its target', () => {
+    expect(hrefs('[site](https://example.com)')).toEqual([['[site](https://example.com)', 'https://example.com']]);
+  });
+
+  it('leaves Markdown links with other schemes as text', () => {
+    expect(hrefs('[site](javascript:void)')).toEqual([]);
+    expect(hrefs('[site](data:text/html,hi)')).toEqual([]);
+  });
+
+  it('places known links at their text in order, skipping text already linked', () => {
+    const lines = ['GitHub: ada (https://github.com/ada)', 'ada'];
+    const known = [
+      { text: 'ada', href: 'https://github.com/ada' },
+      { text: 'ada', href: 'https://example.com/ada' },
+    ];
+    expect(findLinks(lines, known).map((line) => line.map((l) => [l.start, l.href]))).toEqual([
+      [
+        [8, 'https://github.com/ada'],
+        [13, 'https://github.com/ada'],
+      ],
+      [[0, 'https://example.com/ada']],
+    ]);
+  });
+
+  it('ignores known links with unsafe schemes', () => {
+    expect(hrefs('Portfolio', [{ text: 'Portfolio', href: 'javascript:alert(1)' }])).toEqual([]);
+  });
+});
+
+describe('linkSegments', () => {
+  it('splits tokens at link edges', () => {
+    const tokens = [
+      { text: 'see ', type: 'plain' as const },
+      { text: 'https://a.io now', type: 'string' as const },
+    ];
+    const segments = linkSegments(tokens, [{ start: 4, end: 16, href: 'https://a.io' }]);
+    expect(segments.map((s) => [s.link?.href ?? null, s.tokens.map((t) => t.text)])).toEqual([
+      [null, ['see ']],
+      ['https://a.io', ['https://a.io']],
+      [null, [' now']],
+    ]);
+  });
+});
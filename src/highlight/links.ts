@@ -0,0 +1,104 @@
+import type { Token } from './tokenize';
+
+/** Characters `[start, end)` of a line that open `href`. */
+export type LinkRange = { start: number; end: number; href: string };
+
+/** Text in a file that links to a URL from the resume data, listed in the order it appears. */
+export type KnownLink = { text: string; href: string };
+
+// Alternatives are tried left to right at each position, so a Markdown link wins over the URL inside it.
+const LINK_PATTERN = new RegExp(
+  [
+    /\[(?<label>[^\]]*)\]\((?<target>[^)\s]+)\)/.source,
+    /(?<url>\b(?:https?:\/\/|mailto:|tel:)[^\s"'<>)\]]+)/.source,
+    /(?<domain>\b(?:www\.[\w-]+(?:\.[\w-]+)+|[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}\/)[^\s"'<>)\]]*)/.source,
+    /(?<email>\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b)/.source,
+    /(?<phone>\+\d{1,3}[\s.-]?\(?\d[\d\s().-]{5,}\d|\(?\b\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b)/.source,
+  ].join('|'),
+  'g',
+);
+
+/** The only schemes a link may open, since the resume data can come from any URL given by `?resume=`. */
+const LINK_SCHEMES = ['http:', 'https:', 'mailto:', 'tel:'];
+
+/** Whether `href` is an absolute URL with one of the allowed schemes; anything else is shown as plain text. */
+export function isSafeLink(href: string): boolean {
+  try {
+    return LINK_SCHEMES.includes(new URL(href).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/** Sentence punctuation right after a URL is almost never part of it. */
+const TRAILING_PUNCTUATION = /[.,;:!?]+$/;
+
+function detect(line: string): LinkRange[] {
+  const ranges: LinkRange[] = [];
+  for (const m of line.matchAll(LINK_PATTERN)) {
+    const { target, url, domain, email, phone } = m.groups ?? {};
+    const start = m.index;
+    if (target) {
+      if (isSafeLink(target)) ranges.push({ start, end: start + m[0].length, href: target });
+    } else if (url || domain) {
+      const text = (url ?? domain).replace(TRAILING_PUNCTUATION, '');
+      ranges.push({ start, end: start + text.length, href: url ? text : `https://${text}` });
+    } else if (email) ranges.push({ start, end: start + email.length, href: `mailto:${email}` });
+    else if (phone) ranges.push({ start, end: start + phone.length, href: `tel:${phone.startsWith('+') ? '+' : ''}${phone.replace(/\D/g, '')}` });
+  }
+  return ranges;
+}
+
+/**
+ * Finds the links on each line: URLs, Markdown links, email addresses and phone
+ * numbers, plus `known` links from the resume data. Each known link is matched at
+ * its text's next occurrence that isn't already part of a link, so data whose
+ * visible text isn't a URL (a profile's username, a project's name) still opens
+ * the URL it was given.
+ */
+export function findLinks(lines: string[], known: KnownLink[] = []): LinkRange[][] {
+  const ranges = lines.map(detect);
+  let line = 0;
+  let from = 0;
+  known.forEach(({ text, href }) => {
+    if (!text || !isSafeLink(href)) return;
+    for (let l = line; l < lines.length; l++) {
+      let at = lines[l].indexOf(text, l === line ? from : 0);
+      while (at !== -1 && ranges[l].some((r) => at < r.end && at + text.length > r.start)) at = lines[l].indexOf(text, at + 1);
+      if (at === -1) continue;
+      ranges[l].push({ start: at, end: at + text.length, href });
+      line = l;
+      from = at + text.length;
+      return;
+    }
+  });
+  return ranges.map((r) => r.sort((a, b) => a.start - b.start));
+}
+
+/** Splits a line's tokens at link boundaries into runs that are either all inside one link or outside any. */
+export function linkSegments(tokens: Token[], links: LinkRange[]): Array<{ link: LinkRange | null; tokens: Token[] }> {
+  const segments: Array<{ link: LinkRange | null; tokens: Token[] }> = [];
+  let pos = 0;
+  tokens.forEach((token) => {
+    let offset = 0;
+    while (offset < token.text.length) {
+      const at = pos + offset;
+      const link = links.find((l) => at >= l.start && at < l.end) ?? null;
+      // The piece runs to the end of the token, the link, or the next link, whichever comes first.
+      const next = link ? link.end : Math.min(...links.filter((l) => l.start > at).map((l) => l.start), Infinity);
+      const length = Math.min(token.text.length - offset, next - at);
+      const piece = { text: token.text.slice(offset, offset + length), type: token.type };
+      const last = segments[segments.length - 1];
+      if (last && last.link === link) last.tokens.push(piece);
+      else segments.push({ link, tokens: [piece] });
+      offset += length;
+    }
+    pos += token.text.length;
+  });
+  return segments;
+}
+
+export function openLink(href: string) {
+  if (!isSafeLink(href)) return;
+  window.open(href, '_blank', 'noopener,noreferrer');
+}
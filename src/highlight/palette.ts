@@ -0,0 +1,23 @@
+import type { TokenType } from './tokenize';
+
+// Token colors map to the `syntax-*` tokens of the active color theme (see src/themes).
+export const TOKEN_CLASSES: Record<TokenType, string> = {
+  plain: 'text-fg',
+  keyword: 'text-syntax-keyword',
+  type: 'text-syntax-type',
+  string: 'text-syntax-string',
+  number: 'text-syntax-number',
+  comment: 'text-syntax-comment italic',
+  property: 'text-syntax-property',
+  punctuation: 'text-syntax-punctuation',
+  tag: 'text-syntax-tag',
+  attribute: 'text-syntax-attribute',
+  heading: 'text-syntax-keyword font-bold',
+  bullet: 'text-syntax-punctuation',
+  strong: 'text-fg font-bold',
+  emphasis: 'text-fg italic',
+  link: 'text-syntax-link underline',
+  code: 'text-syntax-string',
+  inserted: 'text-diff-inserted',
+  deleted: 'text-diff-removed',
+};
@@ -0,0 +1,203 @@
+export type Language = 'typescript' | 'tsx' | 'json' | 'markdown' | 'diff' | 'plaintext';
+
+export type TokenType =
+  | 'plain'
+  | 'keyword'
+  | 'type'
+  | 'string'
+  | 'number'
+  | 'comment'
+  | 'property'
+  | 'punctuation'
+  | 'tag'
+  | 'attribute'
+  | 'heading'
+  | 'bullet'
+  | 'strong'
+  | 'emphasis'
+  | 'link'
+  | 'code'
+  | 'inserted'
+  | 'deleted';
+
+export type Token = { text: string; type: TokenType };
+
+export function languageForPath(filePath: string): Language {
+  const ext = filePath.toLowerCase().split('.').pop() ?? '';
+  switch (ext) {
+    case 'ts':
+    case 'js':
+      return 'typescript';
+    case 'tsx':
+    case 'jsx':
+      return 'tsx';
+    case 'json':
+      return 'json';
+    case 'md':
+      return 'markdown';
+    case 'diff':
+    case 'patch':
+      return 'diff';
+    default:
+      return 'plaintext';
+  }
+}
+
+const KEYWORDS = new Set([
+  'as',
+  'const',
+  'default',
+  'export',
+  'false',
+  'from',
+  'function',
+  'import',
+  'let',
+  'null',
+  'return',
+  'true',
+  'type',
+  'undefined',
+]);
+const PRIMITIVES = new Set(['string', 'number', 'boolean', 'unknown', 'void']);
+
+type Rule = [RegExp, TokenType | ((match: string, rest: string) => TokenType)];
+
+/** Runs sticky regex rules at each position; unmatched characters become plain text. */
+function scan(line: string, rules: Rule[]): Token[] {
+  const tokens: Token[] = [];
+  const push = (text: string, type: TokenType) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) last.text += text;
+    else tokens.push({ text, type });
+  };
+  let pos = 0;
+  outer: while (pos < line.length) {
+    for (const [re, kind] of rules) {
+      re.lastIndex = pos;
+      const m = re.exec(line);
+      if (m && m[0].length) {
+        push(m[0], typeof kind === 'function' ? kind(m[0], line.slice(pos + m[0].length)) : kind);
+        pos += m[0].length;
+        continue outer;
+      }
+    }
+    push(line[pos], 'plain');
+    pos += 1;
+  }
+  return tokens;
+}
+
+const identifier = (word: string, rest: string): TokenType => {
+  if (KEYWORDS.has(word)) return 'keyword';
+  if (PRIMITIVES.has(word) || /^[A-Z]/.test(word)) return 'type';
+  if (/^\??\s*:/.test(rest)) return 'property';
+  return 'plain';
+};
+
+const SCRIPT_RULES: Rule[] = [
+  [/\/\/.*/y, 'comment'],
+  [/'(?:\\.|[^'\\])*'?|"(?:\\.|[^"\\])*"?|`(?:\\.|[^`\\])*`?/y, 'string'],
+  [/\b\d+(?:\.\d+)?\b/y, 'number'],
+  [/[A-Za-z_$][\w$]*/y, identifier],
+  [/[{}[\]()<>;:,.=|&?!+\-*/]/y, 'punctuation'],
+];
+
+const JSON_RULES: Rule[] = [
+  [/"(?:\\.|[^"\\])*"?/y, (_, rest) => (/^\s*:/.test(rest) ? 'property' : 'string')],
+  [/-?\b\d+(?:\.\d+)?(?:[eE][+-]?\d+)?\b/y, 'number'],
+  [/\b(?:true|false|null)\b/y, 'keyword'],
+  [/[{}[\]:,]/y, 'punctuation'],
+];
+
+const MARKDOWN_INLINE_RULES: Rule[] = [
+  [/\*\*[^*]+\*\*/y, 'strong'],
+  [/(?:\*[^*\s][^*]*\*|_[^_\s][^_]*_)/y, 'emphasis'],
+  [/`[^`]+`/y, 'code'],
+  [/\[[^\]]*\]\([^)]*\)|https?:\/\/\S+/y, 'link'],
+];
+
+function tokenizeMarkdown(line: string): Token[] {
+  if (/^#{1,6}\s/.test(line)) return [{ text: line, type: 'heading' }];
+  const bullet = /^(\s*)([-*•]|\d+\.)(\s+)/.exec(line);
+  if (bullet) {
+    return [{ text: bullet[0], type: 'bullet' }, ...scan(line.slice(bullet[0].length), MARKDOWN_INLINE_RULES)];
+  }
+  if (/^(?:-{3,}|\*{3,})\s*$/.test(line)) return [{ text: line, type: 'punctuation' }];
+  return scan(line, MARKDOWN_INLINE_RULES);
+}
+
+/** Unified diffs as `git show` prints them: the commit line, file headers, hunk headers and changed lines. */
+function tokenizeDiff(line: string): Token[] {
+  if (line.startsWith('commit ')) return [{ text: line, type: 'keyword' }];
+  if (/^(?:diff |new file|deleted file|--- |\+\+\+ )/.test(line)) return [{ text: line, type: 'strong' }];
+  if (line.startsWith('@@')) return [{ text: line, type: 'type' }];
+  if (line.startsWith('+')) return [{ text: line, type: 'inserted' }];
+  if (line.startsWith('-')) return [{ text: line, type: 'deleted' }];
+  return [{ text: line, type: 'plain' }];
+}
+
+/**
+ * JSX lines alternate between markup and embedded expressions. Tags and
+ * attributes are scanned by hand; `{…}` expressions reuse the script rules.
+ */
+const JSX_ATTRIBUTE_RULES: Rule[] = [
+  [/[A-Za-z_][\w-]*(?==)/y, 'attribute'],
+  [/"[^"]*"?|'[^']*'?/y, 'string'],
+  [/[/>=]/y, 'punctuation'],
+];
+
+function tokenizeJsx(line: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+  let text = '';
+  const flushText = () => {
+    if (text) tokens.push({ text, type: 'plain' });
+    text = '';
+  };
+  while (pos < line.length) {
+    const ch = line[pos];
+    if (ch === '<' && /[A-Za-z/>]/.test(line[pos + 1] ?? '')) {
+      flushText();
+      const end = line.indexOf('>', pos);
+      const tag = line.slice(pos, end === -1 ? line.length : end + 1);
+      const head = /^<\/?[\w.]*/.exec(tag)![0];
+      tokens.push({ text: '<' + (head[1] === '/' ? '/' : ''), type: 'punctuation' });
+      tokens.push({ text: head.replace(/^<\/?/, ''), type: 'tag' });
+      // Expressions are split off first, so that `scan` can't merge one into the text before it.
+      tag
+        .slice(head.length)
+        .split(/(\{[^}]*\}?)/)
+        .forEach((part) => tokens.push(...scan(part, part.startsWith('{') ? SCRIPT_RULES : JSX_ATTRIBUTE_RULES)));
+      pos += tag.length;
+    } else if (ch === '{') {
+      flushText();
+      const end = line.indexOf('}', pos);
+      const expr = line.slice(pos, end === -1 ? line.length : end + 1);
+      tokens.push(...scan(expr, SCRIPT_RULES));
+      pos += expr.length;
+    } else {
+      text += ch;
+      pos += 1;
+    }
+  }
+  flushText();
+  return tokens;
+}
+
+export function tokenizeLine(line: string, language: Language): Token[] {
+  switch (language) {
+    case 'typescript':
+      return scan(line, SCRIPT_RULES);
+    case 'tsx':
+      return /^\s*<[A-Za-z/>]/.test(line) ? tokenizeJsx(line) : scan(line, SCRIPT_RULES);
+    case 'json':
+      return scan(line, JSON_RULES);
+    case 'markdown':
+      return tokenizeMarkdown(line);
+    case 'diff':
+      return tokenizeDiff(line);
+    default:
+      return [{ text: line, type: 'plain' }];
+  }
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { parseInline, parseMarkdown } from './parse';
+
+describe('parseInline', () => {
+  it('parses strong, emphasis, code and links, nesting inside strong text', () => {
+    expect(parseInline('**[Site](https://example.com)** _new_ `code`')).toEqual([
+      { type: 'strong', children: [{ type: 'link', href: 'https://example.com', children: [{ type: 'text', text: 'Site' }] }] },
+      { type: 'text', text: ' ' },
+      { type: 'emphasis', children: [{ type: 'text', text: 'new' }] },
+      { type: 'text', text: ' ' },
+      { type: 'code', text: 'code' },
+    ]);
+  });
+
+  it('shows the label of a link with an unsafe scheme as text', () => {
+    expect(parseInline('[click](javascript:void)')).toEqual([{ type: 'text', text: 'click' }]);
+  });
+
+  it('links bare URLs in text', () => {
+    expect(parseInline('at example.com/ada')).toEqual([
+      { type: 'text', text: 'at ' },
+      { type: 'link', href: 'https://example.com/ada', children: [{ type: 'text', text: 'example.com/ada' }] },
+    ]);
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('reads headings, nested lists, rules and paragraphs with their first line', () => {
+    const blocks = parseMarkdown(['# Title', '', 'One', 'two', '', '- a', '  - b', '1. c', '---']);
+    expect(blocks.map((b) => [b.type, b.line])).toEqual([
+      ['heading', 0],
+      ['paragraph', 2],
+      ['list', 5],
+      ['list', 7],
+      ['rule', 8],
+    ]);
+    expect(blocks[1]).toMatchObject({ content: [{ type: 'text', text: 'One two' }] });
+    expect(blocks[2]).toMatchObject({ ordered: false, items: [{ depth: 0 }, { depth: 1 }] });
+  });
+});
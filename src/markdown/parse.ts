@@ -0,0 +1,89 @@
+import { findLinks, isSafeLink } from '../highlight/links';
+
+export type Inline =
+  | { type: 'text' | 'code'; text: string }
+  | { type: 'strong' | 'emphasis'; children: Inline[] }
+  | { type: 'link'; href: string; children: Inline[] };
+
+/** A block of the document; `line` is its first source line, used to keep the preview and the source in step. */
+export type Block =
+  | { type: 'heading'; level: number; content: Inline[]; line: number }
+  | { type: 'paragraph'; content: Inline[]; line: number }
+  | { type: 'list'; ordered: boolean; items: ListItem[]; line: number }
+  | { type: 'rule'; line: number };
+
+export type ListItem = { content: Inline[]; depth: number; line: number };
+
+const INLINE_PATTERN = /\*\*(?<strong>.+?)\*\*|\*(?<em>[^*\s][^*]*)\*|\b_(?<underscore>[^_\s][^_]*)_\b|`(?<code>[^`]+)`|\[(?<label>[^\]]*)\]\((?<href>[^)\s]+)\)/g;
+
+/** Plain text with bare URLs, email addresses and phone numbers turned into links, as in the editor. */
+function autolink(text: string): Inline[] {
+  const nodes: Inline[] = [];
+  let pos = 0;
+  findLinks([text])[0].forEach((link) => {
+    if (link.start > pos) nodes.push({ type: 'text', text: text.slice(pos, link.start) });
+    nodes.push({ type: 'link', href: link.href, children: [{ type: 'text', text: text.slice(link.start, link.end) }] });
+    pos = link.end;
+  });
+  if (pos < text.length) nodes.push({ type: 'text', text: text.slice(pos) });
+  return nodes;
+}
+
+/** Parses emphasis, strong text, code spans and links; strong and emphasis may nest other inlines. */
+export function parseInline(text: string): Inline[] {
+  const nodes: Inline[] = [];
+  let pos = 0;
+  for (const m of text.matchAll(INLINE_PATTERN)) {
+    if (m.index > pos) nodes.push(...autolink(text.slice(pos, m.index)));
+    const { strong, em, underscore, code, label, href } = m.groups ?? {};
+    if (strong !== undefined) nodes.push({ type: 'strong', children: parseInline(strong) });
+    else if (em !== undefined || underscore !== undefined) nodes.push({ type: 'emphasis', children: parseInline(em ?? underscore) });
+    else if (code !== undefined) nodes.push({ type: 'code', text: code });
+    else if (isSafeLink(href)) nodes.push({ type: 'link', href, children: parseInline(label) });
+    else nodes.push(...parseInline(label));
+    pos = m.index + m[0].length;
+  }
+  if (pos < text.length) nodes.push(...autolink(text.slice(pos)));
+  return nodes;
+}
+
+/**
+ * Parses the Markdown the sections produce: ATX headings, bullet and numbered
+ * lists (nested by indentation), horizontal rules and paragraphs, whose lines
+ * are joined as soft breaks.
+ */
+export function parseMarkdown(lines: string[]): Block[] {
+  const blocks: Block[] = [];
+  let paragraph: { text: string[]; line: number } | null = null;
+  const flush = () => {
+    if (paragraph) blocks.push({ type: 'paragraph', content: parseInline(paragraph.text.join(' ')), line: paragraph.line });
+    paragraph = null;
+  };
+
+  lines.forEach((raw, line) => {
+    const heading = /^(#{1,6})\s+(.*)$/.exec(raw);
+    const item = /^(\s*)([-*•+]|\d+[.)])\s+(.*)$/.exec(raw);
+    if (!raw.trim()) {
+      flush();
+    } else if (heading) {
+      flush();
+      blocks.push({ type: 'heading', level: heading[1].length, content: parseInline(heading[2].trim()), line });
+    } else if (/^\s*(?:-{3,}|\*{3,}|_{3,})\s*$/.test(raw)) {
+      flush();
+      blocks.push({ type: 'rule', line });
+    } else if (item) {
+      flush();
+      const ordered = /\d/.test(item[2]);
+      const entry: ListItem = { content: parseInline(item[3]), depth: Math.floor(item[1].replace(/\t/g, '  ').length / 2), line };
+      const last = blocks[blocks.length - 1];
+      if (last?.type === 'list' && last.ordered === ordered) last.items.push(entry);
+      else blocks.push({ type: 'list', ordered, items: [entry], line });
+    } else if (paragraph) {
+      paragraph.text.push(raw.trim());
+    } else {
+      paragraph = { text: [raw.trim()], line };
+    }
+  });
+  flush();
+  return blocks;
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { experienceMonths, formatDate, formatDateRange, formatDuration, mergeSpans, monthSpan, parseDate, parseFormattedDate, tenureMonths } from './dates';
+
+const NOW = new Date(2024, 5, 15);
+
+describe('parseDate', () => {
+  it('reads a year, a month or a day', () => {
+    expect(parseDate('2022')).toEqual({ year: 2022, month: undefined, day: undefined });
+    expect(parseDate('2022-07')).toEqual({ year: 2022, month: 7, day: undefined });
+    expect(parseDate(' 2022-07-15T09:00:00Z ')).toEqual({ year: 2022, month: 7, day: 15 });
+  });
+
+  it('rejects months and days that do not exist', () => {
+    expect(parseDate('2022-13')).toBeNull();
+    expect(parseDate('2022-02-31')).toBeNull();
+    expect(parseDate('2022-02-29')).toBeNull();
+    expect(parseDate('2024-02-29')).toEqual({ year: 2024, month: 2, day: 29 });
+    expect(parseDate('2022-04-00')).toBeNull();
+  });
+
+  it('rejects other text', () => {
+    expect(parseDate('July 2022')).toBeNull();
+    expect(parseDate(null)).toBeNull();
+  });
+});
+
+describe('monthSpan', () => {
+  it('counts both the start and end month', () => {
+    expect(tenureMonths('2022-07', '2023-06', NOW)).toBe(12);
+    expect(tenureMonths('2022', '2022', NOW)).toBe(12);
+  });
+
+  it('runs an ongoing role until now', () => {
+    expect(tenureMonths('2024-01', null, NOW)).toBe(6);
+  });
+
+  it('is null when the end comes first or a date does not parse', () => {
+    expect(monthSpan('2023-01', '2022-12', NOW)).toBeNull();
+    expect(monthSpan('soon', null, NOW)).toBeNull();
+  });
+});
+
+describe('experienceMonths', () => {
+  it('counts overlapping roles once', () => {
+    const job = (startDate: string, endDate: string | null) => ({ name: '', position: '', startDate, endDate, highlights: [] });
+    expect(experienceMonths([job('2020-01', '2020-12'), job('2020-07', '2021-06'), job('2024-01', null)], NOW)).toBe(24);
+  });
+
+  it('joins spans that touch', () => {
+    expect(mergeSpans([{ start: 5, end: 8 }, { start: 0, end: 5 }, { start: 9, end: 10 }])).toEqual([
+      { start: 0, end: 8 },
+      { start: 9, end: 10 },
+    ]);
+  });
+});
+
+describe('formatDuration', () => {
+  it('writes years and months, leaving out zeros', () => {
+    expect(formatDuration(25)).toBe('2 yrs 1 mo');
+    expect(formatDuration(12)).toBe('1 yr');
+    expect(formatDuration(0)).toBe('0 mos');
+  });
+});
+
+describe('formatDate', () => {
+  it('keeps the precision the date was given with', () => {
+    expect(formatDate('2022', 'en-US')).toBe('2022');
+    expect(formatDate('2022-07', 'en-US')).toBe('Jul 2022');
+    expect(formatDate('2022-07-05', 'en-US')).toBe('Jul 5, 2022');
+  });
+
+  it('writes an ongoing end as Present and leaves text it cannot read alone', () => {
+    expect(formatDateRange('2022-07', null, 'en-US')).toBe('Jul 2022 – Present');
+    expect(formatDate('Summer 2022', 'en-US')).toBe('Summer 2022');
+  });
+});
+
+describe('parseFormattedDate', () => {
+  it('reads back what formatDate writes', () => {
+    ['2022', '2022-07', '2022-07-05', '2020-12-31'].forEach((value) => {
+      expect(parseFormattedDate(formatDate(value, 'en-US'), 'en-US')).toBe(value);
+      expect(parseFormattedDate(formatDate(value, 'de-DE'), 'de-DE')).toBe(value);
+    });
+  });
+
+  it('is null for text formatDate would not write', () => {
+    expect(parseFormattedDate('July 2022', 'en-US')).toBeNull();
+    expect(parseFormattedDate('Present', 'en-US')).toBeNull();
+    expect(parseFormattedDate('Feb 31, 2022', 'en-US')).toBeNull();
+  });
+});
@@ -0,0 +1,113 @@
+import type { Work } from './types';
+
+// Dates in the resume data are partial ISO dates: `2022`, `2022-07` or `2022-07-15`. Work
+// end dates are null while the role is ongoing.
+
+/** A parsed resume date; `month` and `day` are 1-based and only present when the text has them. */
+export type PartialDate = { year: number; month?: number; day?: number };
+
+/** A run of whole months, as indexes since year 0, with `end` exclusive. */
+export type MonthSpan = { start: number; end: number };
+
+export function parseDate(value: string | null | undefined): PartialDate | null {
+  const m = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?(?:T.*)?$/.exec(value?.trim() ?? '');
+  if (!m) return null;
+  const month = m[2] ? Number(m[2]) : undefined;
+  const day = m[3] ? Number(m[3]) : undefined;
+  if (month !== undefined && (month < 1 || month > 12)) return null;
+  // Day 0 of the next month is the last day of this one.
+  if (day !== undefined && month !== undefined && (day < 1 || day > new Date(Date.UTC(Number(m[1]), month, 0)).getUTCDate())) return null;
+  return { year: Number(m[1]), month, day };
+}
+
+/** Month index of the current month. */
+export function currentMonth(now = new Date()): number {
+  return now.getFullYear() * 12 + now.getMonth();
+}
+
+/**
+ * Index of a date's month in months since year 0, or null if it doesn't parse. A
+ * year on its own stands for January, or for December when it ends a span.
+ */
+export function monthIndex(value: string, edge: 'start' | 'end' = 'start'): number | null {
+  const date = parseDate(value);
+  if (!date) return null;
+  return date.year * 12 + (date.month ?? (edge === 'start' ? 1 : 12)) - 1;
+}
+
+/** The months from `start` to `end`, both counted; an open end runs until `now`. Null if a date doesn't parse or the end comes first. */
+export function monthSpan(start: string, end: string | null | undefined, now = new Date()): MonthSpan | null {
+  const from = monthIndex(start);
+  const to = end ? monthIndex(end, 'end') : currentMonth(now);
+  return from !== null && to !== null && to >= from ? { start: from, end: to + 1 } : null;
+}
+
+/** How long a role lasted, in months; see `monthSpan`. */
+export function tenureMonths(start: string, end: string | null | undefined, now = new Date()): number | null {
+  const span = monthSpan(start, end, now);
+  return span && span.end - span.start;
+}
+
+/** The spans sorted by start, with overlapping and adjacent ones joined. */
+export function mergeSpans(spans: MonthSpan[]): MonthSpan[] {
+  const merged: MonthSpan[] = [];
+  [...spans]
+    .sort((a, b) => a.start - b.start)
+    .forEach((span) => {
+      const last = merged[merged.length - 1];
+      if (last && span.start <= last.end) last.end = Math.max(last.end, span.end);
+      else merged.push({ ...span });
+    });
+  return merged;
+}
+
+/**
+ * Months covered by the jobs, counting both the start and end month and
+ * overlapping jobs only once. A job without an end date runs until `now`.
+ */
+export function experienceMonths(work: Work[], now = new Date()): number {
+  const spans = work.flatMap((job) => monthSpan(job.startDate, job.endDate, now) ?? []);
+  return mergeSpans(spans).reduce((total, span) => total + span.end - span.start, 0);
+}
+
+export function formatDuration(months: number): string {
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  const parts = [years && `${years} yr${years === 1 ? '' : 's'}`, rest && `${rest} mo${rest === 1 ? '' : 's'}`].filter(Boolean);
+  return parts.length ? parts.join(' ') : '0 mos';
+}
+
+/**
+ * A date in the viewer's locale (or `locale`) at the precision it was given
+ * with: `2022-07` → "Jul 2022" in English. Null, an ongoing end date, is
+ * "Present"; text that doesn't parse is returned unchanged.
+ */
+export function formatDate(value: string | null, locale?: string): string {
+  if (value === null) return 'Present';
+  const date = parseDate(value);
+  if (!date) return value;
+  const options: Intl.DateTimeFormatOptions = { timeZone: 'UTC', year: 'numeric' };
+  if (date.month) options.month = 'short';
+  if (date.month && date.day) options.day = 'numeric';
+  return new Intl.DateTimeFormat(locale, options).format(Date.UTC(date.year, (date.month ?? 1) - 1, date.day ?? 1));
+}
+
+/** "Jul 2022 – Present"; a missing end reads as ongoing. */
+export function formatDateRange(start: string | undefined, end: string | null | undefined, locale?: string): string {
+  return `${start ? formatDate(start, locale) : ''} – ${formatDate(end || null, locale)}`.trim();
+}
+
+/**
+ * Reads back a date written by `formatDate` in the same locale, e.g. "Jul 2022"
+ * → `2022-07`. Null when the text isn't one of its outputs.
+ */
+export function parseFormattedDate(text: string, locale?: string): string | null {
+  const year = /\b\d{4}\b/.exec(text)?.[0];
+  if (!year) return null;
+  const monthName = new Intl.DateTimeFormat(locale, { timeZone: 'UTC', month: 'short' });
+  const month = Array.from({ length: 12 }, (_, m) => m + 1).find((m) => text.includes(monthName.format(Date.UTC(2000, m - 1, 1))));
+  const day = /\b\d{1,2}\b/.exec(text.replace(year, ''))?.[0];
+  const pad = (n: number | string) => String(n).padStart(2, '0');
+  const value = [year, month && pad(month), month && day && pad(day)].filter(Boolean).join('-');
+  return formatDate(value, locale) === text ? value : null;
+}
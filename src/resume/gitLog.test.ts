@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { commitDocument, gitLog } from './gitLog';
+import { validateResume } from './schema';
+import type { Resume, Work } from './types';
+
+const NOW = new Date(2024, 5, 15);
+
+const job = (name: string, startDate: string, endDate: string | null, highlights: string[] = []): Work => ({ name, position: 'Engineer', startDate, endDate, highlights });
+
+const resume = (work: Work[]): Resume => ({
+  basics: { name: 'Ada', label: 'Engineer' },
+  skills: [],
+  work,
+  projects: [],
+  education: [{ institution: 'Uni', studyType: 'BSc', startDate: '2015-08', endDate: '2019-06' }],
+  certificates: [],
+});
+
+describe('gitLog', () => {
+  const rows = gitLog(resume([job('Acme', '2019-07', '2021-06', ['Shipped it']), job('Initech', '2021-07', null)]), NOW);
+  const subjects = rows.map((r) => r.commit.subject);
+
+  it('lists the history newest first, from an initial commit', () => {
+    expect(subjects).toEqual([
+      'Start as Engineer at Initech',
+      "Merge branch 'work/acme'",
+      'Shipped it',
+      'Start as Engineer at Acme',
+      "Merge branch 'education/uni'",
+      'Start BSc at Uni',
+      'Initial commit',
+    ]);
+  });
+
+  it('labels the tips of main and of unmerged branches', () => {
+    expect(rows[0].commit.refs).toEqual(['HEAD -> work/initech']);
+    expect(rows[1].commit.refs).toEqual(['main']);
+    expect(rows.flatMap((r) => r.commit.refs)).toHaveLength(2);
+  });
+
+  it('gives a merge the tips of main and the merged branch as parents', () => {
+    const merge = rows[1].commit;
+    expect(merge.parents).toEqual([rows[4].commit.hash, rows[2].commit.hash]);
+  });
+
+  it('draws a branch in its own lane, joining main at its start and merge', () => {
+    expect(rows.map((r) => r.column)).toEqual([1, 0, 1, 1, 0, 1, 0]);
+    expect(rows[3].lines).toContainEqual({ from: 1, to: 0, part: 'bottom' });
+  });
+
+  it('gives the same hashes for the same resume', () => {
+    const again = gitLog(resume([job('Acme', '2019-07', '2021-06', ['Shipped it']), job('Initech', '2021-07', null)]), NOW);
+    expect(again.map((r) => r.commit.hash)).toEqual(rows.map((r) => r.commit.hash));
+    expect(new Set(rows.map((r) => r.commit.hash)).size).toBe(rows.length);
+  });
+
+  it('paths each commit at its entry in the input when earlier entries were dropped', () => {
+    const input = { ...resume([]), work: [{ ...job('Broken', '2019-01', null), position: 3 }, job('Acme', '2020-01', null)] };
+    const { resume: validated, sourceIndexes } = validateResume(input);
+    const work = gitLog(validated!, NOW, sourceIndexes).filter((r) => r.commit.branch.startsWith('work/'));
+    expect(work.map((r) => r.commit.path)).toEqual(['work[1]']);
+  });
+});
+
+describe('commitDocument', () => {
+  it('prints a commit as git show does', () => {
+    const [row] = gitLog(resume([]), NOW).filter((r) => r.commit.kind === 'merge');
+    const lines = commitDocument(row.commit, 'Ada <ada@example.com>');
+    expect(lines[0]).toBe(`commit ${row.commit.hash} (HEAD -> main)`);
+    expect(lines).toContain("    Merge branch 'education/uni'");
+    expect(lines).toContain('diff --git a/education.md b/education.md');
+    expect(lines.some((l) => l.startsWith('@@ '))).toBe(true);
+  });
+});
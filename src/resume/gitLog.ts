@@ -0,0 +1,291 @@
+import { currentMonth, formatDate, formatDateRange, formatDuration, monthSpan } from './dates';
+import { entryPath, type SourceIndexes } from './schema';
+import { sectionForPath, sectionsFor, slugify } from './sections';
+import { educationMarkdown, jobSource } from './source';
+import type { Resume } from './types';
+
+// The work and education history told as a git history. Each role or course is a branch off
+// `main`, started by a commit on its start date and merged back on its end date; a role's
+// highlights are commits in between, spread evenly since the data doesn't date them. Every
+// commit changes the file the app shows for its entry, and the hashes are derived from the
+// content, so the same resume always gives the same log.
+
+export type CommitKind = 'root' | 'start' | 'highlight' | 'merge';
+
+export type GitCommit = {
+  hash: string;
+  subject: string;
+  body: string[];
+  kind: CommitKind;
+  /** `main`, or the entry's branch such as `work/magic-edtech`. */
+  branch: string;
+  /** For merges into `main`, the branch merged. */
+  merged?: string;
+  /** Labels shown beside the subject, e.g. `HEAD -> work/magic-edtech`. */
+  refs: string[];
+  parents: string[];
+  /** Formatted date; highlights are `approximate`, placed between the role's dates. */
+  date: string;
+  approximate: boolean;
+  /** JSON path of the entry the commit records, e.g. `work[0]`. */
+  path: string;
+  /** The file the commit changes, its lines before and after, and the line they start at in the file. */
+  file: string;
+  before: string[];
+  after: string[];
+  line: number;
+};
+
+/**
+ * A stroke of the graph within a row, between lane columns: `top` runs from the
+ * row's top edge to its middle, `bottom` from the middle to the bottom edge
+ * (curving across when `from` and `to` differ) and `full` the whole height.
+ */
+export type GraphLine = { from: number; to: number; part: 'top' | 'bottom' | 'full' };
+
+/** A row of the log, newest first: the commit, its lane column and the graph strokes drawn beside it. */
+export type GitLogRow = { commit: GitCommit; column: number; lines: GraphLine[] };
+
+/** A commit before its parents and hash are known, with the month it happened in for ordering. */
+type PlannedCommit = { time: number; commit: Omit<GitCommit, 'hash' | 'parents' | 'refs'> };
+
+const KIND_ORDER: Record<CommitKind, number> = { root: 0, merge: 1, highlight: 2, start: 3 };
+
+/** A 40-digit hex id from FNV-1a hashes of the text, in the style of a git object id. */
+function hashOf(text: string): string {
+  return [0x811c9dc5, 0x01000193, 0x2c9277b5, 0x6e3f1c8d, 0x9e3779b9]
+    .map((seed) => {
+      let h = seed;
+      for (let i = 0; i < text.length; i++) h = Math.imul(h ^ text.charCodeAt(i), 0x01000193);
+      return (h >>> 0).toString(16).padStart(8, '0');
+    })
+    .join('');
+}
+
+function monthDate(month: number): Date {
+  return new Date(Math.floor(month / 12), month % 12, 1);
+}
+
+function monthText(month: number): string {
+  return `${Math.floor(month / 12)}-${String((month % 12) + 1).padStart(2, '0')}`;
+}
+
+function workCommits(resume: Resume, now: Date, sourceIndexes: SourceIndexes): PlannedCommit[] {
+  const sections = sectionsFor(resume, sourceIndexes);
+  return resume.work.flatMap((job, i) => {
+    const span = monthSpan(job.startDate, job.endDate, now);
+    if (!span) return [];
+    const path = entryPath(sourceIndexes, 'work', i);
+    const file = sectionForPath(path, sections)?.filePath ?? `experience/${slugify(job.name)}.ts`;
+    const branch = `work/${file.slice(file.lastIndexOf('/') + 1).replace(/\.\w+$/, '')}`;
+    // The file as it stood while the job was ongoing, with its first `count` highlights.
+    const draft = (count: number) => jobSource({ ...job, endDate: null, highlights: job.highlights.slice(0, count) }, monthDate(span.start));
+    const last = job.endDate ? span.end : Math.max(span.end, currentMonth(now) + 1);
+    const shared = { branch, path, file, line: 0, approximate: false };
+    const commits: PlannedCommit[] = [
+      {
+        time: span.start,
+        commit: { ...shared, kind: 'start', subject: `Start as ${job.position} at ${job.name}`, body: [], date: formatDate(job.startDate), before: [], after: draft(0) },
+      },
+      ...job.highlights.map((highlight, k): PlannedCommit => {
+        const time = span.start + ((last - span.start) * (k + 1)) / (job.highlights.length + 1);
+        const date = formatDate(monthText(Math.floor(time)));
+        return { time, commit: { ...shared, kind: 'highlight', subject: highlight, body: [], date, approximate: true, before: draft(k), after: draft(k + 1) } };
+      }),
+    ];
+    if (job.endDate) {
+      commits.push({
+        time: span.end,
+        commit: {
+          ...shared,
+          branch: 'main',
+          merged: branch,
+          kind: 'merge',
+          subject: `Merge branch '${branch}'`,
+          body: [`${job.position} at ${job.name}, ${formatDateRange(job.startDate, job.endDate)} (${formatDuration(span.end - span.start)})`],
+          date: formatDate(job.endDate),
+          before: draft(job.highlights.length),
+          after: jobSource(job, now),
+        },
+      });
+    }
+    return commits;
+  });
+}
+
+function educationCommits(resume: Resume, now: Date, sourceIndexes: SourceIndexes): PlannedCommit[] {
+  const file = sectionForPath('education', sectionsFor(resume))?.filePath ?? 'education.md';
+  const used = new Set<string>();
+  return resume.education.flatMap((e, i) => {
+    const span = e.startDate ? monthSpan(e.startDate, e.endDate, now) : null;
+    if (!span) return [];
+    let branch = `education/${slugify(e.institution) || i + 1}`;
+    for (let n = 2; used.has(branch); n++) branch = `education/${slugify(e.institution) || i + 1}-${n}`;
+    used.add(branch);
+    const title = [e.studyType, e.area].filter(Boolean).join(' | ');
+    const shared = { branch, path: entryPath(sourceIndexes, 'education', i), file, line: i + 2, approximate: false };
+    const started = educationMarkdown([{ ...e, endDate: undefined, score: undefined }]);
+    const commits: PlannedCommit[] = [
+      {
+        time: span.start,
+        commit: { ...shared, kind: 'start', subject: `Start ${title ? `${title} at ` : ''}${e.institution}`, body: [], date: formatDate(e.startDate ?? null), before: [], after: started },
+      },
+    ];
+    if (e.endDate) {
+      commits.push({
+        time: span.end,
+        commit: {
+          ...shared,
+          branch: 'main',
+          merged: branch,
+          kind: 'merge',
+          subject: `Merge branch '${branch}'`,
+          body: [[title, e.institution, formatDateRange(e.startDate, e.endDate), e.score].filter(Boolean).join(', ')],
+          date: formatDate(e.endDate),
+          before: started,
+          after: educationMarkdown([e]),
+        },
+      });
+    }
+    return commits;
+  });
+}
+
+/** Lane columns for the branches: `main` is 0, and branches whose rows overlap get different ones. */
+function assignColumns(rows: GitCommit[]): Map<string, number> {
+  const extent = new Map<string, { top: number; bottom: number }>();
+  rows.forEach((commit, row) => {
+    // A branch's lane reaches up to the row that merges it.
+    const branch = commit.merged ?? commit.branch;
+    if (branch === 'main') return;
+    extent.set(branch, { top: extent.get(branch)?.top ?? row, bottom: row });
+  });
+  const columns = new Map<string, number>([['main', 0]]);
+  const freeAfter: number[] = [];
+  [...extent.entries()]
+    .sort(([, a], [, b]) => a.top - b.top)
+    .forEach(([branch, { top, bottom }]) => {
+      let column = freeAfter.findIndex((row) => row < top);
+      if (column === -1) column = freeAfter.length;
+      freeAfter[column] = bottom;
+      columns.set(branch, column + 1);
+    });
+  return columns;
+}
+
+/**
+ * The history as `git log --graph` would list it, newest first. A role or
+ * course without an end date is an unmerged branch, drawn up to its last commit.
+ * `sourceIndexes`, from validation, places each entry at its path in the input.
+ */
+export function gitLog(resume: Resume, now = new Date(), sourceIndexes: SourceIndexes = {}): GitLogRow[] {
+  const planned = [...workCommits(resume, now, sourceIndexes), ...educationCommits(resume, now, sourceIndexes)].sort(
+    (a, b) => a.time - b.time || KIND_ORDER[a.commit.kind] - KIND_ORDER[b.commit.kind],
+  );
+  const home = sectionsFor(resume).find((s) => s.id === 'home');
+  const root: PlannedCommit['commit'] = {
+    kind: 'root',
+    subject: 'Initial commit',
+    body: [],
+    branch: 'main',
+    date: planned[0]?.commit.date ?? '',
+    approximate: false,
+    path: 'basics',
+    file: home?.filePath ?? 'home.md',
+    before: [],
+    after: home?.render(resume) ?? [],
+    line: 0,
+  };
+
+  // A start commit's parent is the tip of `main`, a merge's are the tips of `main` and the branch merged.
+  const tips = new Map<string, string>();
+  const oldestFirst = [root, ...planned.map((p) => p.commit)].map((plan): GitCommit => {
+    const parents = [tips.get(plan.kind === 'start' ? 'main' : plan.branch), plan.merged && tips.get(plan.merged)].filter((p): p is string => !!p);
+    const hash = hashOf([...parents, plan.branch, plan.subject, ...plan.body].join('\n'));
+    tips.set(plan.branch, hash);
+    return { ...plan, hash, parents, refs: [] };
+  });
+  const rows = oldestFirst.reverse();
+  const rowOf = new Map(rows.map((c, row) => [c.hash, row]));
+
+  // `main` and each unmerged branch are labelled at their tip, with HEAD on the branch of the newest commit.
+  tips.forEach((hash, branch) => {
+    if (branch !== 'main' && rows.some((c) => c.merged === branch)) return;
+    rows[rowOf.get(hash)!].refs.push(branch === rows[0].branch ? `HEAD -> ${branch}` : branch);
+  });
+
+  const columns = assignColumns(rows);
+  const columnOf = (c: GitCommit) => columns.get(c.branch) ?? 0;
+  const lines = rows.map(() => new Map<string, GraphLine>());
+  const add = (row: number, line: GraphLine) => lines[row].set(`${line.from}-${line.to}-${line.part}`, line);
+  rows.forEach((commit, row) => {
+    const from = columnOf(commit);
+    commit.parents.forEach((parent) => {
+      const parentRow = rowOf.get(parent)!;
+      const to = columnOf(rows[parentRow]);
+      add(row, { from, to, part: 'bottom' });
+      for (let r = row + 1; r < parentRow; r++) add(r, { from: to, to, part: 'full' });
+      add(parentRow, { from: to, to, part: 'top' });
+    });
+  });
+
+  return rows.map((commit, row) => ({ commit, column: columnOf(commit), lines: [...lines[row].values()] }));
+}
+
+/** Unified diff hunks, with three lines of context, between two versions of lines starting at `line` in the file. */
+function unifiedDiff(before: string[], after: string[], line: number): string[] {
+  // Longest common subsequence table, filled from the end.
+  const lcs = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const ops: { op: ' ' | '-' | '+'; text: string }[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      ops.push({ op: ' ', text: before[i] });
+      i++;
+      j++;
+    } else if (i < before.length && (j === after.length || lcs[i + 1][j] >= lcs[i][j + 1])) ops.push({ op: '-', text: before[i++] });
+    else ops.push({ op: '+', text: after[j++] });
+  }
+
+  const out: string[] = [];
+  const changed = ops.flatMap((o, k) => (o.op === ' ' ? [] : [k]));
+  for (let k = 0; k < changed.length; ) {
+    // Changes closer than twice the context share a hunk.
+    let end = k;
+    while (end + 1 < changed.length && changed[end + 1] - changed[end] <= 7) end++;
+    const from = Math.max(0, changed[k] - 3);
+    const hunk = ops.slice(from, Math.min(ops.length, changed[end] + 4));
+    const count = (skip: string, list: typeof ops) => list.filter((o) => o.op !== skip).length;
+    const [oldCount, newCount] = [count('+', hunk), count('-', hunk)];
+    // 1-based; an empty side is numbered by the line before it, as git does.
+    const oldStart = line + count('+', ops.slice(0, from)) + (oldCount ? 1 : 0);
+    const newStart = line + count('-', ops.slice(0, from)) + (newCount ? 1 : 0);
+    out.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`, ...hunk.map((o) => `${o.op}${o.text}`));
+    k = end + 1;
+  }
+  return out;
+}
+
+/** The commit as `git show` prints it, for the diff editor. */
+export function commitDocument(commit: GitCommit, author: string): string[] {
+  return [
+    `commit ${commit.hash}${commit.refs.length ? ` (${commit.refs.join(', ')})` : ''}`,
+    ...(commit.parents.length > 1 ? [`Merge: ${commit.parents.map((p) => p.slice(0, 7)).join(' ')}`] : []),
+    `Author: ${author}`,
+    `Date:   ${commit.date}${commit.approximate ? ' (approximate)' : ''}`,
+    '',
+    `    ${commit.subject}`,
+    ...(commit.body.length ? ['', ...commit.body.map((l) => `    ${l}`)] : []),
+    '',
+    `diff --git a/${commit.file} b/${commit.file}`,
+    ...(!commit.before.length && commit.line === 0 ? ['new file mode 100644', '--- /dev/null'] : [`--- a/${commit.file}`]),
+    `+++ b/${commit.file}`,
+    ...unifiedDiff(commit.before, commit.after, commit.line),
+  ];
+}
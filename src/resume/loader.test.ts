@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { loadResume, resumeSources, type LoaderOptions } from './loader';
+
+const RESUME = { basics: { name: 'Ada', label: 'Engineer' }, skills: [], work: [], projects: [], education: [], certificates: [] };
+const BUNDLED = { ...RESUME, basics: { name: 'Bundled', label: 'Engineer' } };
+
+type Reply = Response | ((signal: AbortSignal) => Response) | 'offline';
+
+/** A fetch that answers each request with the next reply in order, recording the requests. */
+function fakeFetch(replies: Reply[]) {
+  const requests: { url: string; headers: Record<string, string> }[] = [];
+  const fetch = async (url: string | URL | Request, init?: RequestInit) => {
+    requests.push({ url: String(url), headers: { ...(init?.headers as Record<string, string>) } });
+    const reply = replies.shift();
+    if (!reply) throw new Error(`unexpected request for ${String(url)}`);
+    if (reply === 'offline') throw new TypeError('Failed to fetch');
+    return typeof reply === 'function' ? reply(init!.signal!) : reply;
+  };
+  return { fetch: fetch as typeof globalThis.fetch, requests };
+}
+
+function memoryStorage(): Pick<Storage, 'getItem' | 'setItem'> {
+  const items = new Map<string, string>();
+  return { getItem: (key) => items.get(key) ?? null, setItem: (key, value) => void items.set(key, value) };
+}
+
+const json = (body: unknown, headers: Record<string, string> = {}) => new Response(JSON.stringify(body), { headers });
+
+/** Headers that arrive, then a body that never finishes until the request is aborted. */
+const stalledBody = (signal: AbortSignal) =>
+  new Response(
+    new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('{"basics":'));
+        signal.addEventListener('abort', () => controller.error(new DOMException('The operation was aborted.', 'AbortError')));
+      },
+    }),
+  );
+
+function options(replies: Reply[], overrides: Partial<LoaderOptions> = {}) {
+  const fake = fakeFetch(replies);
+  const sleeps: number[] = [];
+  const resolved: LoaderOptions = {
+    sources: ['https://example.com/resume.json'],
+    bundled: BUNDLED,
+    timeoutMs: 20,
+    fetch: fake.fetch,
+    sleep: async (ms) => void sleeps.push(ms),
+    storage: memoryStorage(),
+    ...overrides,
+  };
+  return { options: resolved, requests: fake.requests, sleeps };
+}
+
+describe('loadResume', () => {
+  it('serves the first source that answers with a usable resume', async () => {
+    const { options: o } = options([json('not a resume'), json(RESUME)], { sources: ['/a.json', '/b.json'] });
+    const loaded = await loadResume(o);
+    expect(loaded.resume?.basics.name).toBe('Ada');
+    expect(loaded.source).toEqual({ kind: 'network', url: '/b.json' });
+    expect(loaded.failures).toEqual(['/a.json does not contain a usable resume']);
+  });
+
+  it('retries server errors with doubling pauses', async () => {
+    const { options: o, sleeps } = options([new Response('', { status: 503 }), new Response('', { status: 502 }), json(RESUME)]);
+    expect((await loadResume(o)).source.kind).toBe('network');
+    expect(sleeps).toEqual([500, 1000]);
+  });
+
+  it('does not retry a client error', async () => {
+    const { options: o, requests } = options([new Response('', { status: 404 })]);
+    const loaded = await loadResume(o);
+    expect(requests).toHaveLength(1);
+    expect(loaded.source).toEqual({ kind: 'bundled' });
+    expect(loaded.resume?.basics.name).toBe('Bundled');
+  });
+
+  it('times out a body that stalls after the headers arrive', async () => {
+    const { options: o } = options([stalledBody, stalledBody, stalledBody]);
+    const loaded = await loadResume(o);
+    expect(loaded.source).toEqual({ kind: 'bundled' });
+    expect(loaded.failures).toEqual(['https://example.com/resume.json timed out after 20 ms']);
+  });
+
+  it('retries a body that is not valid JSON, then falls back', async () => {
+    const garbled = () => new Response('{"basics":');
+    const { options: o, requests } = options([garbled(), garbled(), garbled()]);
+    const loaded = await loadResume(o);
+    expect(requests).toHaveLength(3);
+    expect(loaded.failures).toEqual(["https://example.com/resume.json sent a body that isn't valid JSON"]);
+    expect(loaded.source).toEqual({ kind: 'bundled' });
+  });
+
+  it('revalidates a saved copy and serves it when not modified', async () => {
+    const storage = memoryStorage();
+    await loadResume(options([json(RESUME, { ETag: '"v1"' })], { storage }).options);
+    const { options: o, requests } = options([new Response(null, { status: 304 })], { storage });
+    const loaded = await loadResume(o);
+    expect(requests[0].headers).toEqual({ 'If-None-Match': '"v1"' });
+    expect(loaded.source).toEqual({ kind: 'network', url: 'https://example.com/resume.json' });
+    expect(loaded.resume?.basics.name).toBe('Ada');
+  });
+
+  it('serves the saved copy when no source answers', async () => {
+    const storage = memoryStorage();
+    await loadResume(options([json(RESUME, { ETag: '"v1"' })], { storage }).options);
+    const { options: o, requests } = options(['offline', 'offline', 'offline'], { storage });
+    const loaded = await loadResume(o);
+    expect(loaded.source.kind).toBe('cache');
+    expect(loaded.resume?.basics.name).toBe('Ada');
+    // A cross-origin server may reject the preflight the conditional headers need.
+    expect(requests.map((r) => Object.keys(r.headers).length)).toEqual([1, 0, 0]);
+  });
+});
+
+describe('resumeSources', () => {
+  it('prefers ?resume= over the build setting over the defaults', () => {
+    expect(resumeSources('?resume=/a.json,/b.json&resume=/c.json', '/env.json')).toEqual(['/a.json', '/b.json', '/c.json']);
+    expect(resumeSources('', ' /env.json , ')).toEqual(['/env.json']);
+    expect(resumeSources('', undefined)).toContain('/resume.json');
+  });
+});
@@ -0,0 +1,183 @@
+import { validateResume, type ValidationResult } from './schema';
+import type { Resume } from './types';
+
+/** Sources tried in order when neither `?resume=` nor `VITE_RESUME_SOURCES` lists any. */
+export const DEFAULT_RESUME_SOURCES = ['https://raw.githubusercontent.com/lalitbing/LalitBing/main/details.json', '/resume.json'];
+
+const CACHE_KEY = 'vscode-resume.resume-cache';
+
+/**
+ * Where the shown resume came from: a source that answered (possibly with "not
+ * modified"), the last good copy saved from an earlier visit when none did, or
+ * the copy bundled at build time when there is no saved copy either.
+ */
+export type ResumeSource = { kind: 'network'; url: string } | { kind: 'cache'; url: string; savedAt: number } | { kind: 'bundled' };
+
+export type LoadedResume = ValidationResult & {
+  source: ResumeSource;
+  /** Why each source that was tried failed, in order. */
+  failures: string[];
+};
+
+export type LoaderOptions = {
+  sources: string[];
+  /** Resume data served when no source answers and nothing was saved. */
+  bundled: unknown;
+  /** Per-request timeout. */
+  timeoutMs?: number;
+  /** Attempts after the first for timeouts, network errors and 5xx/429 responses. */
+  retries?: number;
+  /** Delay before the first retry, doubled before each further one. */
+  backoffMs?: number;
+  fetch?: typeof fetch;
+  sleep?: (ms: number) => Promise<void>;
+  /** Where good copies are saved; `localStorage` by default. */
+  storage?: Pick<Storage, 'getItem' | 'setItem'>;
+};
+
+type ResolvedOptions = Required<Omit<LoaderOptions, 'storage'>> & Pick<LoaderOptions, 'storage'>;
+
+/** A good response kept for revalidation and for offline use. */
+type CacheEntry = { body: unknown; etag?: string; lastModified?: string; savedAt: number };
+
+/** Why a source failed; `retryable` failures are worth another attempt after a pause. */
+type LoadError = Error & { reason: 'network' | 'timeout' | 'status' | 'body' | 'invalid'; retryable: boolean };
+
+/** A source's answer: its parsed body, or `notModified` for a 304 to a conditional request. */
+type Fetched = { body: unknown; notModified: boolean; etag: string | null; lastModified: string | null };
+
+function loadError(message: string, reason: LoadError['reason'], retryable: boolean): LoadError {
+  return Object.assign(new Error(message), { reason, retryable });
+}
+
+function isLoadError(err: unknown): err is LoadError {
+  return err instanceof Error && 'reason' in err;
+}
+
+/**
+ * The sources to load from: `?resume=` in the page URL (repeated or comma
+ * separated) wins over the comma-separated `VITE_RESUME_SOURCES` build setting,
+ * which wins over the defaults.
+ */
+export function resumeSources(search: string = window.location.search, env: string | undefined = import.meta.env.VITE_RESUME_SOURCES): string[] {
+  const split = (values: string[]) => values.flatMap((v) => v.split(',')).map((v) => v.trim()).filter(Boolean);
+  const fromQuery = split(new URLSearchParams(search).getAll('resume'));
+  if (fromQuery.length) return fromQuery;
+  const fromEnv = split(env ? [env] : []);
+  return fromEnv.length ? fromEnv : DEFAULT_RESUME_SOURCES;
+}
+
+function readCache(storage: LoaderOptions['storage']): Record<string, CacheEntry> {
+  try {
+    const parsed: unknown = JSON.parse((storage ?? localStorage).getItem(CACHE_KEY) ?? '{}');
+    return parsed && typeof parsed === 'object' ? (parsed as Record<string, CacheEntry>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeCache(storage: LoaderOptions['storage'], cache: Record<string, CacheEntry>) {
+  try {
+    (storage ?? localStorage).setItem(CACHE_KEY, JSON.stringify(cache));
+  } catch {
+    // Storage can be full or disabled (private mode); the page then needs the network on the next visit.
+  }
+}
+
+/** One request, with the body read under the same timeout as the headers, since a server can stall in between. */
+async function fetchOnce(url: string, headers: Record<string, string>, timeoutMs: number, fetchFn: typeof fetch): Promise<Fetched> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const res = await fetchFn(url, { headers, cache: 'no-store', signal: controller.signal });
+    if (!res.ok && res.status !== 304) throw loadError(`${url} answered ${res.status}`, 'status', res.status >= 500 || res.status === 429);
+    const notModified = res.status === 304;
+    const body: unknown = notModified ? undefined : await res.json();
+    return { body, notModified, etag: res.headers.get('ETag'), lastModified: res.headers.get('Last-Modified') };
+  } catch (err) {
+    if (isLoadError(err)) throw err;
+    if (controller.signal.aborted) throw loadError(`${url} timed out after ${timeoutMs} ms`, 'timeout', true);
+    // A truncated or garbled body may come through whole on another attempt.
+    if (err instanceof SyntaxError) throw loadError(`${url} sent a body that isn't valid JSON`, 'body', true);
+    throw loadError(`${url} could not be reached`, 'network', true);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Fetches with exponential backoff between attempts. The conditional headers
+ * are dropped after a network error, since a cross-origin server may reject the
+ * preflight they need.
+ */
+async function fetchWithRetry(url: string, entry: CacheEntry | undefined, options: ResolvedOptions): Promise<Fetched> {
+  let conditional = true;
+  for (let attempt = 0; ; attempt++) {
+    const headers: Record<string, string> = {};
+    if (conditional && entry?.etag) headers['If-None-Match'] = entry.etag;
+    if (conditional && entry?.lastModified) headers['If-Modified-Since'] = entry.lastModified;
+    try {
+      return await fetchOnce(url, headers, options.timeoutMs, options.fetch);
+    } catch (err) {
+      if (!isLoadError(err) || !err.retryable || attempt >= options.retries) throw err;
+      if (err.reason === 'network') conditional = false;
+      await options.sleep(options.backoffMs * 2 ** attempt);
+    }
+  }
+}
+
+function validated(body: unknown, url: string): ValidationResult & { resume: Resume } {
+  const result = validateResume(body);
+  if (!result.resume) throw loadError(`${url} does not contain a usable resume`, 'invalid', false);
+  return { ...result, resume: result.resume };
+}
+
+/**
+ * Loads the resume from the first source that answers with usable data,
+ * revalidating copies saved from earlier visits with their ETag and
+ * Last-Modified. When no source answers, the newest saved copy is served, or
+ * failing that the bundled one.
+ */
+export async function loadResume(options: LoaderOptions): Promise<LoadedResume> {
+  const resolved: ResolvedOptions = {
+    timeoutMs: 8000,
+    retries: 2,
+    backoffMs: 500,
+    fetch: (...args) => fetch(...args),
+    sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+    ...options,
+  };
+  const cache = readCache(resolved.storage);
+  const failures: string[] = [];
+
+  for (const url of resolved.sources) {
+    const entry = cache[url];
+    try {
+      const fetched = await fetchWithRetry(url, entry, resolved);
+      const body = fetched.notModified ? entry?.body : fetched.body;
+      const result = validated(body, url);
+      cache[url] = {
+        body,
+        etag: fetched.etag ?? entry?.etag,
+        lastModified: fetched.lastModified ?? entry?.lastModified,
+        savedAt: Date.now(),
+      };
+      writeCache(resolved.storage, cache);
+      return { ...result, source: { kind: 'network', url }, failures };
+    } catch (err) {
+      failures.push(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  const saved = Object.entries(cache)
+    .filter(([url]) => resolved.sources.includes(url))
+    .sort(([, a], [, b]) => b.savedAt - a.savedAt);
+  for (const [url, entry] of saved) {
+    try {
+      return { ...validated(entry.body, url), source: { kind: 'cache', url, savedAt: entry.savedAt }, failures };
+    } catch {
+      // A saved copy the current schema rejects is no better than none.
+    }
+  }
+  return { ...validateResume(resolved.bundled), source: { kind: 'bundled' }, failures };
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import bundled from '../../public/resume.json';
+import { GENERATED_NOTICE, parseResumeMarkdown, resumeDifferences, resumeMarkdownFile, resumeToMarkdown } from './markdown';
+import { validateResume } from './schema';
+import type { Resume } from './types';
+
+const resume = validateResume(bundled).resume!;
+
+const extended: Resume = {
+  basics: { name: 'Ada Lovelace', label: 'Analyst', summary: 'Writes programs.', profiles: [{ network: 'Web', url: 'https://ada.example.com' }] },
+  skills: [{ name: 'Maths', keywords: ['Analysis', 'Notes'] }],
+  work: [
+    { name: 'Engine Co', position: 'Programmer', startDate: '1842-10', endDate: '1843-09-05', highlights: ['Wrote note G'] },
+    { name: 'Self', position: 'Analyst', startDate: '1844', endDate: null, highlights: [] },
+  ],
+  projects: [
+    { name: 'Note G', year: 1843, summary: 'Bernoulli numbers', technologies: ['Engine'], url: 'https://example.com/g' },
+    { name: 'Poetical science', technologies: [] },
+  ],
+  education: [{ institution: 'Home', studyType: 'Tutoring', area: 'Mathematics', startDate: '1830', endDate: '1835', score: 'Distinction' }],
+  certificates: [{ name: 'Fellowship', issuer: 'Society', date: '1840-06' }],
+  volunteer: [{ organization: 'Society', position: 'Member', url: 'https://example.com/s', startDate: '1840', summary: 'Met weekly.', highlights: ['Gave a talk'] }],
+  awards: [{ title: 'Medal', awarder: 'Academy', date: '1841-02-03', summary: 'For the notes' }],
+  publications: [{ name: 'Sketch', publisher: 'Memoirs', releaseDate: '1843', url: 'https://example.com/sketch' }],
+  languages: [{ language: 'English', fluency: 'Native' }, { language: 'French' }],
+  interests: ['Horses', 'Music'],
+};
+
+describe('resumeMarkdownFile', () => {
+  it('reads back the bundled resume without changes', () => {
+    const markdown = resumeMarkdownFile(resume);
+    expect(markdown.startsWith(`${GENERATED_NOTICE}\n\n# ${resume.basics.name}\n`)).toBe(true);
+    const parsed = parseResumeMarkdown(markdown, resume);
+    expect(parsed.warnings).toEqual([]);
+    expect(parsed.resume).toEqual(resume);
+  });
+
+  it('reads back every section, dates included, without the data as a base', () => {
+    const { resume: parsed, warnings } = parseResumeMarkdown(resumeMarkdownFile(extended));
+    expect(warnings).toEqual([]);
+    expect(resumeDifferences(extended, parsed)).toEqual([]);
+  });
+
+  it('writes dates as they are shown in the app', () => {
+    const markdown = resumeToMarkdown(extended);
+    expect(markdown).toContain('### Programmer — Engine Co (Oct 1842 – Sep 5, 1843)');
+    expect(markdown).toContain('### Analyst — Self (1844 – Present)');
+  });
+});
+
+describe('parseResumeMarkdown', () => {
+  it('reports lines it cannot read and unknown sections', () => {
+    const markdown = ['# Ada', '', '**Analyst**', '', '## Skills', '- Maths', '', '## Hobbies', '- Horses'].join('\n');
+    expect(parseResumeMarkdown(markdown).warnings).toEqual(['Line 6: could not read "- Maths"', 'Line 8: unknown section "Hobbies"']);
+  });
+
+  it('keeps dates it cannot read as text', () => {
+    const markdown = ['# Ada', '**Analyst**', '## Work Experience', '### Analyst — Self (Spring 1844 – Present)'].join('\n');
+    expect(parseResumeMarkdown(markdown).resume.work[0].startDate).toBe('Spring 1844');
+  });
+
+  it('takes the fields Markdown does not hold from the base', () => {
+    const base = { ...extended, basics: { ...extended.basics, location: { country: 'GB' } }, meta: { version: 1 } };
+    const { resume: parsed } = parseResumeMarkdown(resumeMarkdownFile(extended), base);
+    expect(parsed.basics.location).toEqual({ country: 'GB' });
+    expect(parsed.meta).toEqual({ version: 1 });
+  });
+});
+
+describe('resumeDifferences', () => {
+  it('lists changed fields by path, treating missing and empty values as equal', () => {
+    const changed: Resume = { ...extended, work: [{ ...extended.work[0], startDate: '1842-11' }, extended.work[1]], interests: undefined, awards: [] };
+    expect(resumeDifferences({ ...extended, awards: undefined, interests: [] }, changed)).toEqual([
+      { path: 'work[0].startDate', json: '1842-10', markdown: '1842-11' },
+    ]);
+  });
+});
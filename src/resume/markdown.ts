@@ -0,0 +1,328 @@
+import { parseFormattedDate } from './dates';
+import {
+  awardsMarkdown,
+  certificatesMarkdown,
+  educationMarkdown,
+  jobMarkdown,
+  languagesMarkdown,
+  profilesMarkdown,
+  projectsMarkdown,
+  publicationsMarkdown,
+  skillsMarkdown,
+  volunteerMarkdown,
+} from './source';
+import type { Award, Certificate, Education, Language, Profile, Project, Publication, Resume, Volunteer, Work } from './types';
+
+// RESUME.md, written from the resume data and read back into it. Every section comes from the
+// `*Markdown` serializers in source.ts, with headings moved down a level where they are `##`, and
+// dates spelled out in English so the file reads the same wherever it is generated.
+
+/** First line of the generated RESUME.md. */
+export const GENERATED_NOTICE =
+  '<!-- Generated from public/resume.json by `npm run resume:md`. Edit that file, or edit this one and run `npm run resume:import`. -->';
+
+/** Locale of the dates in RESUME.md and the Markdown export. */
+const LOCALE = 'en-US';
+
+/** Closing line of the document, below the last section. */
+const FOOTER = 'Generated from the interactive VSCode‑style resume UI (Halcyon theme inspired).';
+
+export type MarkdownParseResult = {
+  resume: Resume;
+  /** Lines that could not be read, and so are missing from `resume`. */
+  warnings: string[];
+};
+
+/** A field whose value differs, with `undefined` for a side that lacks it. */
+export type ResumeDifference = { path: string; json: unknown; markdown: unknown };
+
+type Line = { text: string; number: number };
+
+type Unread = (line: Line) => void;
+
+/** A section of lists follows its heading directly; one of `###` entries has a blank line before each. */
+function section(title: string, body: string[]): string[] {
+  return ['---', '', `## ${title}`, ...body, ''];
+}
+
+function optionalSection<T>(title: string, items: T[] | undefined, render: (items: T[]) => string[]): string[] {
+  return items?.length ? section(title, render(items)) : [];
+}
+
+function demote(lines: string[]): string[] {
+  return lines.map((l) => (l.startsWith('## ') ? `#${l}` : l));
+}
+
+/**
+ * The resume as one Markdown document, laid out like RESUME.md: the name and
+ * label, then a section per part of the data. Also the Markdown export.
+ */
+export function resumeToMarkdown(resume: Resume): string {
+  const { basics } = resume;
+  return [
+    `# ${basics.name}`,
+    '',
+    `**${basics.label}**`,
+    '',
+    ...(basics.summary ? [basics.summary, ''] : []),
+    ...section('Contact', profilesMarkdown(basics.profiles ?? [])),
+    ...section('Skills', skillsMarkdown(resume.skills)),
+    ...section('Work Experience', resume.work.flatMap((job) => ['', ...jobMarkdown(job, LOCALE)])),
+    ...section('Projects', projectsMarkdown(resume.projects)),
+    ...section('Training & Certifications', certificatesMarkdown(resume.certificates, LOCALE)),
+    ...section('Education', educationMarkdown(resume.education, LOCALE)),
+    ...optionalSection('Volunteer', resume.volunteer, (v) => ['', ...demote(volunteerMarkdown(v, LOCALE))]),
+    ...optionalSection('Awards', resume.awards, (a) => awardsMarkdown(a, LOCALE)),
+    ...optionalSection('Publications', resume.publications, (p) => publicationsMarkdown(p, LOCALE)),
+    ...optionalSection('Languages', resume.languages, languagesMarkdown),
+    ...optionalSection('Interests', resume.interests, (items) => [items.join(' • ')]),
+    '---',
+    '',
+    FOOTER,
+    '',
+  ].join('\n');
+}
+
+/** RESUME.md as `npm run resume:md` writes it: the document below a notice that it is generated. */
+export function resumeMarkdownFile(resume: Resume): string {
+  return `${GENERATED_NOTICE}\n\n${resumeToMarkdown(resume)}`;
+}
+
+const BOLD_FIELD = /^\*\*(.+?)\*\*: (.*)$/;
+const BOLD_ENTRY = /^\*\*(.+?)\*\*(?: — (.+?))?(?: \(([^()]*)\))?(?:: (.*))?$/;
+const LINK = /^\[([^\]]+)\]\(([^)]+)\)$/;
+const DATED = /^(.+?)(?: \((.*?) – (.*?)\))?$/;
+
+function orUndefined(value: string | undefined): string | undefined {
+  return value || undefined;
+}
+
+/** A date as the data holds it; text that isn't a date `formatDate` wrote is kept as it is. */
+function readDate(text: string | undefined): string | undefined {
+  return text ? (parseFormattedDate(text, LOCALE) ?? text) : undefined;
+}
+
+/** Splits `text` into its link text and URL when it is a Markdown link. */
+function link(text: string): { text: string; url?: string } {
+  const match = LINK.exec(text);
+  return match ? { text: match[1], url: match[2] } : { text };
+}
+
+function isItem(line: Line): boolean {
+  return line.text.startsWith('- ');
+}
+
+function bullets<T>(lines: Line[], unread: Unread, read: (text: string) => T | undefined): T[] {
+  return lines.flatMap((line) => {
+    const item = isItem(line) ? read(line.text.slice(2)) : undefined;
+    if (item === undefined) unread(line);
+    return item === undefined ? [] : [item];
+  });
+}
+
+/** Reads `### heading` entries; `read` gets the heading text and the lines below it. */
+function headed<T>(lines: Line[], unread: Unread, read: (heading: string, body: Line[]) => T | undefined): T[] {
+  const found: { heading: Line; body: Line[] }[] = [];
+  lines.forEach((line) => {
+    if (line.text.startsWith('### ')) found.push({ heading: line, body: [] });
+    else if (found.length) found[found.length - 1].body.push(line);
+    else unread(line);
+  });
+  return found.flatMap(({ heading, body }) => {
+    const item = read(heading.text.slice(4), body);
+    if (item === undefined) unread(heading);
+    return item === undefined ? [] : [item];
+  });
+}
+
+/** Body lines that aren't list items, joined into one paragraph. */
+function paragraph(body: Line[]): string | undefined {
+  return orUndefined(
+    body
+      .filter((l) => !isItem(l))
+      .map((l) => l.text)
+      .join(' '),
+  );
+}
+
+function readProfile(text: string): Profile | undefined {
+  const match = BOLD_FIELD.exec(text);
+  if (!match) return undefined;
+  const value = match[2];
+  const linked = LINK.exec(value);
+  if (linked) return { network: match[1], username: linked[1], url: linked[2] };
+  const bare = /^<(.+)>$/.exec(value);
+  return bare ? { network: match[1], url: bare[1] } : { network: match[1], username: orUndefined(value) };
+}
+
+function readJob(heading: string, body: Line[], unread: Unread): Work | undefined {
+  const match = /^(.+?) — (.+?) \((.*?) – (.*?)\)$/.exec(heading);
+  if (!match) return undefined;
+  const [, position, name, startDate, endDate] = match;
+  const highlights = bullets(body, unread, (text) => text);
+  return { name, position, startDate: readDate(startDate) ?? '', endDate: endDate === 'Present' ? null : (readDate(endDate) ?? null), highlights };
+}
+
+function readProject(text: string): Project | undefined {
+  const match = /^\*\*(.+?)(?: \((\d+)\))?\*\*(?:: (.*))?$/.exec(text);
+  if (!match) return undefined;
+  const { text: name, url } = link(match[1]);
+  const detail = /^(?:(.*) — )?_([^_]+)_$/.exec(match[3] ?? '');
+  return {
+    name,
+    year: match[2] ? Number(match[2]) : undefined,
+    summary: orUndefined(detail ? detail[1] : match[3]),
+    technologies: detail ? detail[2].split(',').map((t) => t.trim()).filter(Boolean) : [],
+    url,
+  };
+}
+
+function readCertificate(text: string): Certificate | undefined {
+  const match = BOLD_ENTRY.exec(text);
+  if (!match || match[4] !== undefined) return undefined;
+  return { name: match[1], issuer: match[2], date: readDate(match[3]) };
+}
+
+function readEducation(text: string): Education | undefined {
+  const match = /^(?:\*\*(.+?)\*\* — )?(.+?)(?: \(([^()]* – [^()]*)\))?(?: — (.+))?$/.exec(text);
+  if (!match) return undefined;
+  const [, title = '', institution, range, score] = match;
+  const degree = /^(.*?) \|(?: (.*))?$/.exec(title);
+  const [start, end] = range?.split(' – ') ?? [];
+  return {
+    institution,
+    studyType: degree ? orUndefined(degree[1]) : undefined,
+    area: orUndefined(degree ? degree[2] : title),
+    startDate: readDate(start),
+    endDate: end === 'Present' ? undefined : readDate(end),
+    score,
+  };
+}
+
+function readVolunteer(heading: string, body: Line[], unread: Unread): Volunteer | undefined {
+  const match = /^(.+?) — (.+)$/.exec(heading);
+  if (!match) return undefined;
+  const [, organization, startDate, endDate] = DATED.exec(match[2]) ?? [];
+  const org = link(organization);
+  return {
+    organization: org.text,
+    position: match[1],
+    url: org.url,
+    startDate: readDate(startDate),
+    endDate: endDate === 'Present' ? undefined : readDate(endDate),
+    summary: paragraph(body),
+    highlights: bullets(body.filter(isItem), unread, (text) => text),
+  };
+}
+
+function readAward(text: string): Award | undefined {
+  const match = BOLD_ENTRY.exec(text);
+  return match ? { title: match[1], awarder: match[2], date: readDate(match[3]), summary: match[4] } : undefined;
+}
+
+function readPublication(text: string): Publication | undefined {
+  const match = BOLD_ENTRY.exec(text);
+  if (!match) return undefined;
+  const { text: name, url } = link(match[1]);
+  return { name, publisher: match[2], releaseDate: readDate(match[3]), url, summary: match[4] };
+}
+
+function readLanguage(text: string): Language | undefined {
+  const match = /^\*\*(.+?)\*\*(?: — (.*))?$/.exec(text);
+  return match ? { language: match[1], fluency: match[2] } : undefined;
+}
+
+/** Readers for each `##` section of RESUME.md, keyed by its title. */
+const SECTION_READERS: Record<string, (lines: Line[], resume: Resume, unread: Unread) => void> = {
+  Contact: (lines, r, unread) => (r.basics.profiles = bullets(lines, unread, readProfile)),
+  Skills: (lines, r, unread) =>
+    (r.skills = bullets(lines, unread, (text) => {
+      const match = BOLD_FIELD.exec(text);
+      return match ? { name: match[1], keywords: match[2].split(',').map((k) => k.trim()).filter(Boolean) } : undefined;
+    })),
+  'Work Experience': (lines, r, unread) => (r.work = headed(lines, unread, (heading, body) => readJob(heading, body, unread))),
+  Projects: (lines, r, unread) => (r.projects = bullets(lines, unread, readProject)),
+  'Training & Certifications': (lines, r, unread) => (r.certificates = bullets(lines, unread, readCertificate)),
+  Education: (lines, r, unread) => (r.education = bullets(lines, unread, readEducation)),
+  Volunteer: (lines, r, unread) => (r.volunteer = headed(lines, unread, (heading, body) => readVolunteer(heading, body, unread))),
+  Awards: (lines, r, unread) => (r.awards = bullets(lines, unread, readAward)),
+  Publications: (lines, r, unread) => (r.publications = bullets(lines, unread, readPublication)),
+  Languages: (lines, r, unread) => (r.languages = bullets(lines, unread, readLanguage)),
+  Interests: (lines, r) => (r.interests = lines.flatMap((line) => line.text.split(' • ').map((i) => i.trim()).filter(Boolean))),
+};
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Markdown can't tell a missing value from `null`, `''` or `[]`, so those all count as equal. */
+function differences(json: unknown, markdown: unknown, path: string): ResumeDifference[] {
+  if (isEmpty(json) && isEmpty(markdown)) return [];
+  if (Array.isArray(json) && Array.isArray(markdown)) {
+    const length = Math.max(json.length, markdown.length);
+    return Array.from({ length }, (_, i) => differences(json[i], markdown[i], `${path}[${i}]`)).flat();
+  }
+  if (isRecord(json) && isRecord(markdown)) {
+    const keys = new Set([...Object.keys(json), ...Object.keys(markdown)]);
+    return [...keys].flatMap((k) => differences(json[k], markdown[k], path ? `${path}.${k}` : k));
+  }
+  return json === markdown ? [] : [{ path, json, markdown }];
+}
+
+/** The fields that differ between the resume data and what RESUME.md holds, as JSON paths like `work[1].startDate`. */
+export function resumeDifferences(json: Resume, markdown: Resume): ResumeDifference[] {
+  return differences(json, markdown, '');
+}
+
+/** `parsed`, keeping `base`'s values and key order wherever the two are equal. */
+function reconcile(parsed: unknown, base: unknown): unknown {
+  if (!differences(base, parsed, '').length) return base;
+  if (Array.isArray(parsed) && Array.isArray(base)) return parsed.map((v, i) => reconcile(v, base[i]));
+  if (isRecord(parsed) && isRecord(base)) {
+    const keys = [...new Set([...Object.keys(base), ...Object.keys(parsed)])];
+    return Object.fromEntries(keys.map((k) => [k, reconcile(parsed[k], base[k])]).filter(([, v]) => v !== undefined));
+  }
+  return parsed;
+}
+
+/**
+ * Reads a resume back from RESUME.md. Fields the Markdown doesn't hold
+ * (`basics.location` and `meta`) are taken from `base`, as are values it can't
+ * tell apart from the ones read, such as `url: null` for a project without one.
+ */
+export function parseResumeMarkdown(markdown: string, base?: Resume): MarkdownParseResult {
+  const warnings: string[] = [];
+  const unread: Unread = (line) => warnings.push(`Line ${line.number}: could not read "${line.text}"`);
+
+  const blocks: { title: Line | null; lines: Line[] }[] = [{ title: null, lines: [] }];
+  markdown.split(/\r?\n/).forEach((raw, i) => {
+    const line = { text: raw.trim(), number: i + 1 };
+    if (line.text.startsWith('## ')) blocks.push({ title: { text: line.text.slice(3).trim(), number: line.number }, lines: [] });
+    else if (line.text && line.text !== '---' && line.text !== FOOTER && !line.text.startsWith('<!--')) blocks[blocks.length - 1].lines.push(line);
+  });
+
+  const resume: Resume = { basics: { name: '', label: '' }, skills: [], work: [], projects: [], education: [], certificates: [] };
+  const summary: string[] = [];
+  blocks[0].lines.forEach((line) => {
+    const label = /^\*\*(.+)\*\*$/.exec(line.text);
+    if (line.text.startsWith('# ') && !resume.basics.name) resume.basics.name = line.text.slice(2).trim();
+    else if (label && !resume.basics.label) resume.basics.label = label[1];
+    else summary.push(line.text);
+  });
+  resume.basics.summary = orUndefined(summary.join(' '));
+
+  blocks.slice(1).forEach(({ title, lines }) => {
+    const read = title && SECTION_READERS[title.text];
+    if (read) read(lines, resume, unread);
+    else if (title) warnings.push(`Line ${title.number}: unknown section "${title.text}"`);
+  });
+
+  if (!base) return { resume, warnings };
+  resume.basics.location = base.basics.location;
+  resume.meta = base.meta;
+  return { resume: reconcile(resume, base) as Resume, warnings };
+}
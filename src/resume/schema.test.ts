@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { entryPath, validateResume } from './schema';
+
+const job = (name: string, extra: Record<string, unknown> = {}) => ({ name, position: 'Engineer', startDate: '2022-07', endDate: null, highlights: [], ...extra });
+
+const input = (fields: Record<string, unknown> = {}) => ({
+  basics: { name: 'Ada', label: 'Engineer' },
+  skills: [],
+  work: [],
+  projects: [],
+  education: [],
+  certificates: [],
+  ...fields,
+});
+
+describe('validateResume', () => {
+  it('accepts a complete resume without problems', () => {
+    const result = validateResume(input({ work: [job('Acme')] }));
+    expect(result.problems).toEqual([]);
+    expect(result.resume?.work).toEqual([job('Acme')]);
+  });
+
+  it('is null when the input is not an object', () => {
+    expect(validateResume('resume').resume).toBeNull();
+  });
+
+  it('drops invalid list items and reports them at their input path', () => {
+    const { resume, problems } = validateResume(input({ work: [job('Broken', { position: 3 }), job('Acme')] }));
+    expect(resume?.work.map((w) => w.name)).toEqual(['Acme']);
+    expect(problems).toEqual([{ path: 'work[0].position', severity: 'error', message: 'Expected string but got number.' }]);
+  });
+
+  it('names both types allowed for a nullable value', () => {
+    expect(validateResume(input({ work: [job('Acme', { endDate: 3 })] })).problems).toEqual([
+      { path: 'work[0].endDate', severity: 'error', message: 'Expected string or null but got number.' },
+    ]);
+  });
+});
+
+describe('entryPath', () => {
+  it('maps a validated item back to its position in the input', () => {
+    const { sourceIndexes } = validateResume(input({ work: [job('Broken', { position: 3 }), job('Acme'), job('Initech')] }));
+    expect(sourceIndexes.work).toEqual([1, 2]);
+    expect(entryPath(sourceIndexes, 'work', 0)).toBe('work[1]');
+    expect(entryPath(sourceIndexes, 'work', 1)).toBe('work[2]');
+  });
+
+  it('uses the index as is for a list it has no positions for', () => {
+    expect(entryPath({}, 'projects', 2)).toBe('projects[2]');
+  });
+});
@@ -0,0 +1,294 @@
+import type { Resume } from './types';
+
+export type Severity = 'error' | 'warning';
+
+export type Problem = {
+  /** JSON path of the offending value, e.g. `work[1].startDate`. */
+  path: string;
+  message: string;
+  severity: Severity;
+};
+
+/**
+ * Where the items of each validated list sat in the input, keyed by the list's
+ * JSON path (`work`). Invalid items are dropped, but problem paths keep the
+ * input's positions, so paths built for the data have to map through this.
+ */
+export type SourceIndexes = Record<string, number[]>;
+
+export type ValidationResult = {
+  /** The valid subset of the input, or null when nothing usable was found. */
+  resume: Resume | null;
+  problems: Problem[];
+  sourceIndexes: SourceIndexes;
+};
+
+/** What parsing reports besides the value: problems found, and the input positions of list items kept. */
+type ParseContext = { problems: Problem[]; sourceIndexes: SourceIndexes };
+
+type Schema<T> = {
+  expected: string;
+  /** Used in place of a missing or invalid value instead of failing the parent object. */
+  fallback?: T;
+  parse: (value: unknown, path: string, context: ParseContext) => T | undefined;
+};
+
+type Field = { schema: Schema<unknown>; optional: boolean };
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function mismatch(expected: string, value: unknown, path: string, { problems }: ParseContext) {
+  problems.push({ path, severity: 'error', message: `Expected ${expected} but got ${describe(value)}.` });
+}
+
+function primitive<T>(expected: 'string' | 'number'): Schema<T> {
+  return {
+    expected,
+    parse(value, path, context) {
+      if (typeof value === expected) return value as T;
+      mismatch(expected, value, path, context);
+      return undefined;
+    },
+  };
+}
+
+const string = primitive<string>('string');
+const number = primitive<number>('number');
+
+function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    expected: `${schema.expected} or null`,
+    parse(value, path, context) {
+      if (value === null) return null;
+      const inner: Problem[] = [];
+      const parsed = schema.parse(value, path, { ...context, problems: inner });
+      if (parsed === undefined && describe(value) !== schema.expected) mismatch(`${schema.expected} or null`, value, path, context);
+      else context.problems.push(...inner);
+      return parsed;
+    },
+  };
+}
+
+/** JSON path of a validated list's item, e.g. `work[2]`, at its position in the input. */
+export function entryPath(sourceIndexes: SourceIndexes, list: string, index: number): string {
+  return `${list}[${sourceIndexes[list]?.[index] ?? index}]`;
+}
+
+/** Invalid items are reported and dropped so the rest of the list still renders. */
+function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    expected: 'array',
+    parse(value, path, context) {
+      if (!Array.isArray(value)) {
+        mismatch('array', value, path, context);
+        return undefined;
+      }
+      const out: T[] = [];
+      const kept: number[] = [];
+      value.forEach((v, i) => {
+        const parsed = item.parse(v, `${path}[${i}]`, context);
+        if (parsed === undefined) return;
+        out.push(parsed);
+        kept.push(i);
+      });
+      context.sourceIndexes[path] = kept;
+      return out;
+    },
+  };
+}
+
+const record: Schema<Record<string, unknown>> = {
+  expected: 'object',
+  parse(value, path, context) {
+    if (describe(value) === 'object') return value as Record<string, unknown>;
+    mismatch('object', value, path, context);
+    return undefined;
+  },
+};
+
+const required = (schema: Schema<unknown>): Field => ({ schema, optional: false });
+const optional = (schema: Schema<unknown>): Field => ({ schema, optional: true });
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = tmp;
+    }
+  }
+  return row[b.length];
+}
+
+function suggest(key: string, known: string[]): string | undefined {
+  const lower = key.toLowerCase();
+  return known.find((k) => k.toLowerCase() === lower) ?? known.find((k) => editDistance(k.toLowerCase(), lower) <= 2);
+}
+
+/**
+ * An object fails as a whole when a required field is missing or invalid.
+ * Invalid optional fields are dropped; unknown keys only produce warnings.
+ */
+function object<T>(fields: Record<string, Field>): Schema<T> {
+  const known = Object.keys(fields);
+  return {
+    expected: 'object',
+    parse(value, path, context) {
+      if (describe(value) !== 'object') {
+        mismatch('object', value, path, context);
+        return undefined;
+      }
+      const input = value as Record<string, unknown>;
+      const join = (key: string) => (path ? `${path}.${key}` : key);
+      const out: Record<string, unknown> = {};
+      let valid = true;
+      for (const key of known) {
+        const field = fields[key];
+        if (input[key] === undefined) {
+          if (!field.optional) {
+            context.problems.push({ path: join(key), severity: 'error', message: `Missing required property '${key}'.` });
+            if (field.schema.fallback !== undefined) out[key] = field.schema.fallback;
+            else valid = false;
+          }
+          continue;
+        }
+        const parsed = field.schema.parse(input[key], join(key), context);
+        if (parsed !== undefined) out[key] = parsed;
+        else if (!field.optional) valid = false;
+      }
+      for (const key of Object.keys(input)) {
+        if (known.includes(key)) continue;
+        const hint = suggest(key, known);
+        context.problems.push({
+          path: join(key),
+          severity: 'warning',
+          message: `Unknown property '${key}'.${hint ? ` Did you mean '${hint}'?` : ''}`,
+        });
+      }
+      return valid ? (out as T) : undefined;
+    },
+  };
+}
+
+/** Keeps top-level sections independent: a broken one is replaced instead of failing the resume. */
+function withDefault<T>(schema: Schema<T>, fallback: T): Schema<T> {
+  return {
+    expected: schema.expected,
+    fallback,
+    parse(value, path, context) {
+      const parsed = schema.parse(value, path, context);
+      return parsed === undefined ? fallback : parsed;
+    },
+  };
+}
+
+const resumeSchema = object<Resume>({
+  basics: required(
+    withDefault(
+      object({
+        name: required(string),
+        label: required(string),
+        summary: optional(string),
+        location: optional(object({ country: optional(string) })),
+        profiles: optional(
+          array(
+            object({
+              network: required(string),
+              username: optional(string),
+              url: optional(nullable(string)),
+            }),
+          ),
+        ),
+      }),
+      { name: 'Lalit Sharma', label: 'Software Engineer' },
+    ),
+  ),
+  skills: required(withDefault(array(object({ name: required(string), keywords: required(array(string)) })), [])),
+  work: required(
+    withDefault(
+      array(
+        object({
+          name: required(string),
+          position: required(string),
+          startDate: required(string),
+          endDate: required(withDefault(nullable(string), null)),
+          highlights: required(array(string)),
+        }),
+      ),
+      [],
+    ),
+  ),
+  projects: required(
+    withDefault(
+      array(
+        object({
+          name: required(string),
+          year: optional(number),
+          summary: optional(string),
+          technologies: optional(array(string)),
+          url: optional(nullable(string)),
+        }),
+      ),
+      [],
+    ),
+  ),
+  education: required(
+    withDefault(
+      array(
+        object({
+          institution: required(string),
+          studyType: optional(string),
+          area: optional(string),
+          startDate: optional(string),
+          endDate: optional(string),
+          score: optional(string),
+        }),
+      ),
+      [],
+    ),
+  ),
+  certificates: required(
+    withDefault(array(object({ name: required(string), issuer: optional(string), date: optional(string) })), []),
+  ),
+  volunteer: optional(
+    array(
+      object({
+        organization: required(string),
+        position: required(string),
+        url: optional(string),
+        startDate: optional(string),
+        endDate: optional(string),
+        summary: optional(string),
+        highlights: optional(array(string)),
+      }),
+    ),
+  ),
+  awards: optional(array(object({ title: required(string), date: optional(string), awarder: optional(string), summary: optional(string) }))),
+  publications: optional(
+    array(
+      object({
+        name: required(string),
+        publisher: optional(string),
+        releaseDate: optional(string),
+        url: optional(string),
+        summary: optional(string),
+      }),
+    ),
+  ),
+  languages: optional(array(object({ language: required(string), fluency: optional(string) }))),
+  interests: optional(array(string)),
+  meta: optional(record),
+});
+
+export function validateResume(input: unknown): ValidationResult {
+  const context: ParseContext = { problems: [], sourceIndexes: {} };
+  const resume = resumeSchema.parse(input, '', context) ?? null;
+  return { resume, ...context };
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { validateResume } from './schema';
+import { isKnownSectionId, sectionForProblem, sectionsFor, slugify } from './sections';
+
+const job = (name: string, extra: Record<string, unknown> = {}) => ({ name, position: 'Engineer', startDate: '2022-07', endDate: null, highlights: [], ...extra });
+
+const input = (work: unknown[]) => ({ basics: { name: 'Ada', label: 'Engineer' }, skills: [], work, projects: [], education: [], certificates: [] });
+
+describe('sectionsFor', () => {
+  it('lists only the core sections before the resume loads', () => {
+    expect(sectionsFor(null).some((s) => s.id.startsWith('experience/'))).toBe(false);
+  });
+
+  it('gives each job a file, numbering names used twice', () => {
+    const { resume, sourceIndexes } = validateResume(input([job('Acme'), job('Acme Corp.'), job('Acme corp')]));
+    const files = sectionsFor(resume, sourceIndexes).filter((s) => s.id.startsWith('experience/'));
+    expect(files.map((s) => s.filePath)).toEqual(['experience/acme.ts', 'experience/acme-corp.ts', 'experience/acme-corp-2.ts']);
+  });
+
+  it('attributes a problem to the file of the entry it was found in after an earlier entry is dropped', () => {
+    const { resume, problems, sourceIndexes } = validateResume(input([job('Broken', { position: 3 }), job('Acme'), job('Initech', { extra: true })]));
+    const sections = sectionsFor(resume, sourceIndexes);
+    const warning = problems.find((p) => p.path.startsWith('work[2]'))!;
+    expect(sectionForProblem(warning, sections)?.filePath).toBe('experience/initech.ts');
+    expect(sections.find((s) => s.filePath === 'experience/acme.ts')?.dataPaths).toEqual(['work[1]']);
+  });
+});
+
+describe('slugify', () => {
+  it('keeps letters and digits, joined by single dashes', () => {
+    expect(slugify('  Über Co. — R&D 2 ')).toBe('uber-co-r-d-2');
+  });
+});
+
+describe('isKnownSectionId', () => {
+  it('accepts any entry of a collection, since those are only known once the resume loads', () => {
+    expect(isKnownSectionId('home')).toBe(true);
+    expect(isKnownSectionId('experience/anything')).toBe(true);
+    expect(isKnownSectionId('elsewhere')).toBe(false);
+  });
+});
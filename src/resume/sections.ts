@@ -0,0 +1,253 @@
+import type { KnownLink } from '../highlight/links';
+import { entryPath, type Problem, type SourceIndexes } from './schema';
+import {
+  awardsMarkdown,
+  certificatesMarkdown,
+  certificateSymbols,
+  contactSource,
+  educationMarkdown,
+  educationSymbols,
+  jobSource,
+  jobSymbols,
+  languagesMarkdown,
+  projectSource,
+  projectSymbols,
+  publicationsMarkdown,
+  skillsSource,
+  volunteerMarkdown,
+  volunteerSymbols,
+} from './source';
+import { offsetSymbols, type DocumentSymbol } from './symbols';
+import type { Project, Resume, Work } from './types';
+
+export type SectionId = string;
+
+export type SectionDescriptor = {
+  id: SectionId;
+  title: string;
+  /** Name of the virtual file; its extension picks the editor language. */
+  filePath: string;
+  /** File name whose icon represents the section, when it should differ from `filePath`. */
+  icon?: string;
+  /** JSON paths of the resume data the section renders, used to attribute validation problems. */
+  dataPaths: string[];
+  render: (resume: Resume) => string[];
+  /** Text that links to a `url` field of the data, in file order; URLs written out in the file are found without this. */
+  links?: (resume: Resume) => KnownLink[];
+  /** Entries listed in the Outline and breadcrumbs, built from the data rather than found in the rendered lines. */
+  symbols?: (resume: Resume) => DocumentSymbol[];
+  /** Optional sections are listed only when the loaded resume has data for them. */
+  isPresent?: (resume: Resume) => boolean;
+};
+
+/** Symbol for a Markdown page's `# title`, with `body` symbols placed after the heading and the blank line below it. */
+function page(title: string, body: DocumentSymbol[] = []): DocumentSymbol[] {
+  return [{ name: title, kind: 'heading', line: 0, children: offsetSymbols(body, 2) }];
+}
+
+export const SECTION_DESCRIPTORS: SectionDescriptor[] = [
+  {
+    id: 'home',
+    title: 'Home',
+    filePath: 'home.md',
+    dataPaths: ['basics'],
+    render: (r) => [`# ${r.basics.name}`, `**${r.basics.label}**`, '', r.basics.summary ?? ''].filter(Boolean),
+    symbols: (r) => [{ name: r.basics.name, detail: r.basics.label, kind: 'heading', line: 0 }],
+  },
+  {
+    id: 'about',
+    title: 'About',
+    filePath: 'about.md',
+    dataPaths: ['basics.summary'],
+    render: (r) => ['# About', '', r.basics.summary ?? ''].filter(Boolean),
+    symbols: () => page('About'),
+  },
+  {
+    id: 'skills',
+    title: 'Skills',
+    filePath: 'skills.ts',
+    dataPaths: ['skills'],
+    render: (r) => skillsSource(r.skills),
+  },
+  {
+    id: 'education',
+    title: 'Education',
+    filePath: 'education.md',
+    dataPaths: ['education'],
+    render: (r) => ['# Education', '', ...educationMarkdown(r.education)],
+    symbols: (r) => page('Education', educationSymbols(r.education)),
+  },
+  {
+    id: 'training',
+    title: 'Training & Certs',
+    filePath: 'training.md',
+    dataPaths: ['certificates'],
+    render: (r) => ['# Training & Certifications', '', ...certificatesMarkdown(r.certificates)],
+    symbols: (r) => page('Training & Certifications', certificateSymbols(r.certificates)),
+  },
+  {
+    id: 'volunteer',
+    title: 'Volunteer',
+    filePath: 'volunteer.md',
+    dataPaths: ['volunteer'],
+    render: (r) => ['# Volunteer', '', ...volunteerMarkdown(r.volunteer ?? [])],
+    symbols: (r) => page('Volunteer', volunteerSymbols(r.volunteer ?? [])),
+    isPresent: (r) => !!r.volunteer?.length,
+  },
+  {
+    id: 'awards',
+    title: 'Awards',
+    filePath: 'awards.md',
+    dataPaths: ['awards'],
+    render: (r) => ['# Awards', '', ...awardsMarkdown(r.awards ?? [])],
+    symbols: () => page('Awards'),
+    isPresent: (r) => !!r.awards?.length,
+  },
+  {
+    id: 'publications',
+    title: 'Publications',
+    filePath: 'publications.md',
+    dataPaths: ['publications'],
+    render: (r) => ['# Publications', '', ...publicationsMarkdown(r.publications ?? [])],
+    symbols: () => page('Publications'),
+    isPresent: (r) => !!r.publications?.length,
+  },
+  {
+    id: 'languages',
+    title: 'Languages',
+    filePath: 'languages.md',
+    dataPaths: ['languages'],
+    render: (r) => ['# Languages', '', ...languagesMarkdown(r.languages ?? [])],
+    symbols: () => page('Languages'),
+    isPresent: (r) => !!r.languages?.length,
+  },
+  {
+    id: 'interests',
+    title: 'Interests',
+    filePath: 'interests.md',
+    dataPaths: ['interests'],
+    render: (r) => ['# Interests', '', ...(r.interests ?? []).map((i) => `- ${i}`)],
+    symbols: () => page('Interests'),
+    isPresent: (r) => !!r.interests?.length,
+  },
+  {
+    id: 'contact',
+    title: 'Contact',
+    filePath: 'contact.tsx',
+    dataPaths: ['basics.profiles'],
+    render: (r) => contactSource(r.basics.profiles ?? []),
+    links: (r) => (r.basics.profiles ?? []).flatMap((p) => (p.url && p.username ? [{ text: p.username, href: p.url }] : [])),
+  },
+  {
+    id: 'meta',
+    title: 'Meta',
+    filePath: 'meta.json',
+    icon: 'package.json',
+    dataPaths: ['meta'],
+    render: (r) => JSON.stringify(r.meta ?? {}, null, 2).split('\n'),
+    isPresent: (r) => !!r.meta && Object.keys(r.meta).length > 0,
+  },
+];
+
+/** A folder holding one file per entry of a resume array, such as one per job. */
+type SectionCollection = {
+  folder: string;
+  entries: (resume: Resume, sourceIndexes: SourceIndexes) => SectionDescriptor[];
+};
+
+export function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize('NFKD')
+    // Decomposing splits accents off their letters; dropping them keeps `ü` as `u`.
+    .replace(/\p{M}/gu, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/** `dataPath` is the list's JSON path, with `sourceIndexes` giving each entry's position in the input data. */
+function entryFiles<T>(
+  items: T[],
+  sourceIndexes: SourceIndexes,
+  folder: string,
+  extension: string,
+  dataPath: string,
+  nameOf: (item: T) => string,
+  source: (item: T) => string[],
+  symbols: (item: T) => DocumentSymbol[],
+  links?: (item: T) => KnownLink[],
+): SectionDescriptor[] {
+  const used = new Set<string>();
+  return items.map((item, i) => {
+    // Two entries with the same name (e.g. returning to an employer) get numbered files.
+    const base = slugify(nameOf(item)) || String(i + 1);
+    let slug = base;
+    for (let n = 2; used.has(slug); n++) slug = `${base}-${n}`;
+    used.add(slug);
+    return {
+      id: `${folder}/${slug}`,
+      title: nameOf(item),
+      filePath: `${folder}/${slug}.${extension}`,
+      dataPaths: [entryPath(sourceIndexes, dataPath, i)],
+      render: () => source(item),
+      symbols: () => symbols(item),
+      links: links && (() => links(item)),
+    };
+  });
+}
+
+export const SECTION_COLLECTIONS: SectionCollection[] = [
+  { folder: 'experience', entries: (r, indexes) => entryFiles<Work>(r.work, indexes, 'experience', 'ts', 'work', (w) => w.name, jobSource, jobSymbols) },
+  {
+    folder: 'projects',
+    entries: (r, indexes) =>
+      entryFiles<Project>(r.projects, indexes, 'projects', 'json', 'projects', (p) => p.name, projectSource, projectSymbols, (p) =>
+        p.url ? [{ text: p.name, href: p.url }] : [],
+      ),
+  },
+];
+
+/**
+ * Whether an id can name a section. Entries of a collection are only known once
+ * the resume loads, so any id inside a collection folder is accepted until then.
+ */
+export function isKnownSectionId(id: string): boolean {
+  return SECTION_DESCRIPTORS.some((s) => s.id === id) || SECTION_COLLECTIONS.some((c) => id.startsWith(`${c.folder}/`));
+}
+
+/**
+ * Sections to list for the loaded resume; before it loads only the core sections
+ * are shown. `sourceIndexes` comes from validating the resume.
+ */
+export function sectionsFor(resume: Resume | null, sourceIndexes: SourceIndexes = {}): SectionDescriptor[] {
+  const core = SECTION_DESCRIPTORS.filter((s) => !s.isPresent || (resume !== null && s.isPresent(resume)));
+  return resume ? [...core, ...SECTION_COLLECTIONS.flatMap((c) => c.entries(resume, sourceIndexes))] : core;
+}
+
+export function sectionLines(section: SectionDescriptor, resume: Resume | null): string[] {
+  return resume ? section.render(resume) : [];
+}
+
+export function sectionLinks(section: SectionDescriptor, resume: Resume | null): KnownLink[] {
+  return resume && section.links ? section.links(resume) : [];
+}
+
+export function sectionSymbols(section: SectionDescriptor, resume: Resume | null): DocumentSymbol[] {
+  return resume && section.symbols ? section.symbols(resume) : [];
+}
+
+/** Section that renders the data at a JSON path such as `work[1]`, preferring the most specific match. */
+export function sectionForPath(path: string, sections: SectionDescriptor[]): SectionDescriptor | undefined {
+  let best: { section: SectionDescriptor; length: number } | undefined;
+  sections.forEach((section) => {
+    section.dataPaths.forEach((p) => {
+      const matches = path === p || path.startsWith(`${p}.`) || path.startsWith(`${p}[`);
+      if (matches && (!best || p.length > best.length)) best = { section, length: p.length };
+    });
+  });
+  return best?.section;
+}
+
+export function sectionForProblem(problem: Problem, sections: SectionDescriptor[]): SectionDescriptor | undefined {
+  return sectionForPath(problem.path, sections);
+}
@@ -0,0 +1,180 @@
+import { formatDate, formatDateRange, formatDuration, parseDate, tenureMonths } from './dates';
+import type { DocumentSymbol } from './symbols';
+import type { Award, Certificate, Education, Language, Profile, Project, Publication, Resume, Volunteer, Work } from './types';
+
+// Serializers that present resume data as source code in the language of each virtual file. Each
+// `*Symbols` function lists the entries of its serializer's output at the lines it puts them on.
+// The `*Markdown` serializers also write RESUME.md and the Markdown export, so they take the
+// locale dates are spelled in; the editor leaves it to the viewer's.
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+function tsString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function tsKey(key: string): string {
+  return IDENTIFIER.test(key) ? key : tsString(key);
+}
+
+function jsxText(value: string): string {
+  return value.replace(/[{}<>]/g, (c) => `{'${c}'}`);
+}
+
+function jsxAttr(value: string): string {
+  return `"${value.replace(/"/g, '&quot;')}"`;
+}
+
+/** A trailing comment spelling out a date in the viewer's locale, followed by the job's length when given. */
+function dateComment(date: string | null, tenure: number | null = null): string {
+  const parts = [date === null || parseDate(date) ? formatDate(date) : '', tenure !== null ? formatDuration(tenure) : ''];
+  const text = parts.filter(Boolean).join(' · ');
+  return text ? ` // ${text}` : '';
+}
+
+/** `now` is when an ongoing job's length is measured to. */
+export function jobSource(job: Work, now = new Date()): string[] {
+  const tenure = tenureMonths(job.startDate, job.endDate, now);
+  return [
+    'export const job = {',
+    `  name: ${tsString(job.name)},`,
+    `  position: ${tsString(job.position)},`,
+    `  startDate: ${tsString(job.startDate)},${dateComment(job.startDate)}`,
+    `  endDate: ${job.endDate === null ? 'null' : tsString(job.endDate)},${dateComment(job.endDate, tenure)}`,
+    '  highlights: [',
+    ...job.highlights.map((h) => `    ${tsString(h)},`),
+    '  ],',
+    '};',
+  ];
+}
+
+/** A job as a `###` heading with its dates, followed by its highlights. */
+export function jobMarkdown(job: Work, locale?: string): string[] {
+  return [`### ${job.position} — ${job.name} (${formatDateRange(job.startDate, job.endDate, locale)})`, ...job.highlights.map((h) => `- ${h}`)];
+}
+
+export function jobSymbols(job: Work): DocumentSymbol[] {
+  return [{ name: job.name, detail: job.position, kind: 'job', line: 0 }];
+}
+
+export function skillsSource(skills: Resume['skills']): string[] {
+  return [
+    'export const skills: Record<string, string[]> = {',
+    ...skills.map((s) => `  ${tsKey(s.name)}: [${s.keywords.map(tsString).join(', ')}],`),
+    '};',
+  ];
+}
+
+export function skillsMarkdown(skills: Resume['skills']): string[] {
+  return skills.map((s) => `- **${s.name}**: ${s.keywords.join(', ')}`);
+}
+
+export function projectSource(project: Project): string[] {
+  return JSON.stringify(project, null, 2).split('\n');
+}
+
+/** One line per project: its name and year, then the summary and the technologies in italics. */
+export function projectsMarkdown(projects: Project[]): string[] {
+  return projects.map((p) => {
+    const name = p.url ? `[${p.name}](${p.url})` : p.name;
+    const detail = [p.summary, p.technologies?.length ? `_${p.technologies.join(', ')}_` : ''].filter(Boolean).join(' — ');
+    return `- **${name}${p.year ? ` (${p.year})` : ''}**${detail ? `: ${detail}` : ''}`;
+  });
+}
+
+export function projectSymbols(project: Project): DocumentSymbol[] {
+  return [{ name: project.name, detail: project.year?.toString(), kind: 'project', line: 0 }];
+}
+
+export function contactSource(profiles: Profile[]): string[] {
+  const items = profiles.map((p) => {
+    const value = jsxText(p.username ?? p.url ?? '');
+    const body = p.url ? `<a href=${jsxAttr(p.url)}>${value}</a>` : value;
+    return `      <li>${jsxText(p.network)}: ${body}</li>`;
+  });
+  return ['export default function Contact() {', '  return (', '    <ul>', ...items, '    </ul>', '  );', '}'];
+}
+
+/** The profiles as a list, with usernames linked to their URLs. */
+export function profilesMarkdown(profiles: Profile[]): string[] {
+  return profiles.map((p) => {
+    const value = p.url && p.username ? `[${p.username}](${p.url})` : p.url ? `<${p.url}>` : (p.username ?? '');
+    return `- **${p.network}**: ${value}`;
+  });
+}
+
+export function educationMarkdown(education: Education[], locale?: string): string[] {
+  return education.map((e) => {
+    const dates = e.startDate || e.endDate ? ` (${formatDateRange(e.startDate, e.endDate, locale)})` : '';
+    const score = e.score ? ` — ${e.score}` : '';
+    const title = `${e.studyType ? e.studyType + ' | ' : ''}${e.area ?? ''}`.trim();
+    return `- ${title ? `**${title}** — ` : ''}${e.institution}${dates}${score}`;
+  });
+}
+
+export function educationSymbols(education: Education[]): DocumentSymbol[] {
+  return education.map((e, i) => ({
+    name: e.institution,
+    detail: `${e.studyType ? e.studyType + ' | ' : ''}${e.area ?? ''}`.trim() || undefined,
+    kind: 'degree',
+    line: i,
+  }));
+}
+
+export function certificatesMarkdown(certificates: Certificate[], locale?: string): string[] {
+  return certificates.map((c) => {
+    const issuer = c.issuer ? ` — ${c.issuer}` : '';
+    const date = c.date ? ` (${formatDate(c.date, locale)})` : '';
+    return `- **${c.name}**${issuer}${date}`;
+  });
+}
+
+export function certificateSymbols(certificates: Certificate[]): DocumentSymbol[] {
+  return certificates.map((c, i) => ({ name: c.name, detail: c.issuer, kind: 'certificate', line: i }));
+}
+
+function volunteerEntry(v: Volunteer, locale?: string): string[] {
+  const dates = v.startDate || v.endDate ? ` (${formatDateRange(v.startDate, v.endDate, locale)})` : '';
+  return [
+    `## ${v.position} — ${v.url ? `[${v.organization}](${v.url})` : v.organization}${dates}`,
+    ...(v.summary ? ['', v.summary] : []),
+    ...(v.highlights?.length ? ['', ...v.highlights.map((h) => `- ${h}`)] : []),
+  ];
+}
+
+export function volunteerMarkdown(volunteer: Volunteer[], locale?: string): string[] {
+  return volunteer.flatMap((v, i) => [...(i ? [''] : []), ...volunteerEntry(v, locale)]);
+}
+
+export function volunteerSymbols(volunteer: Volunteer[]): DocumentSymbol[] {
+  let line = 0;
+  return volunteer.map((v, i) => {
+    if (i) line++;
+    const symbol: DocumentSymbol = { name: v.organization, detail: v.position, kind: 'heading', line };
+    line += volunteerEntry(v).length;
+    return symbol;
+  });
+}
+
+export function awardsMarkdown(awards: Award[], locale?: string): string[] {
+  return awards.map((a) => {
+    const awarder = a.awarder ? ` — ${a.awarder}` : '';
+    const date = a.date ? ` (${formatDate(a.date, locale)})` : '';
+    const summary = a.summary ? `: ${a.summary}` : '';
+    return `- **${a.title}**${awarder}${date}${summary}`;
+  });
+}
+
+export function publicationsMarkdown(publications: Publication[], locale?: string): string[] {
+  return publications.map((p) => {
+    const title = p.url ? `[${p.name}](${p.url})` : p.name;
+    const publisher = p.publisher ? ` — ${p.publisher}` : '';
+    const date = p.releaseDate ? ` (${formatDate(p.releaseDate, locale)})` : '';
+    const summary = p.summary ? `: ${p.summary}` : '';
+    return `- **${title}**${publisher}${date}${summary}`;
+  });
+}
+
+export function languagesMarkdown(languages: Language[]): string[] {
+  return languages.map((l) => `- **${l.language}**${l.fluency ? ` — ${l.fluency}` : ''}`);
+}
@@ -0,0 +1,32 @@
+export type SymbolKind = 'heading' | 'job' | 'project' | 'degree' | 'certificate';
+
+/** A navigable entry of a section file, such as a job or a degree; `line` is the zero-based line its serializer put it on. */
+export type DocumentSymbol = {
+  name: string;
+  detail?: string;
+  kind: SymbolKind;
+  line: number;
+  children?: DocumentSymbol[];
+};
+
+/** Moves symbols, and their children, down by `offset` lines, for serializer output placed below other lines. */
+export function offsetSymbols(symbols: DocumentSymbol[], offset: number): DocumentSymbol[] {
+  return symbols.map((s) => ({ ...s, line: s.line + offset, children: s.children && offsetSymbols(s.children, offset) }));
+}
+
+/** The symbols containing a line, outermost first: at each level, the last one that starts at or above it. */
+export function symbolPathAt(symbols: DocumentSymbol[], line: number): DocumentSymbol[] {
+  const path: DocumentSymbol[] = [];
+  let level = symbols;
+  for (;;) {
+    const symbol = level.filter((s) => s.line <= line).pop();
+    if (!symbol) return path;
+    path.push(symbol);
+    level = symbol.children ?? [];
+  }
+}
+
+/** Symbols in document order with their nesting depth, for rendering as an indented list. */
+export function flattenSymbols(symbols: DocumentSymbol[], depth = 0): Array<{ symbol: DocumentSymbol; depth: number }> {
+  return symbols.flatMap((symbol) => [{ symbol, depth }, ...flattenSymbols(symbol.children ?? [], depth + 1)]);
+}
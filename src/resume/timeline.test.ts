@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { validateResume } from './schema';
+import { timelineItems, workGaps } from './timeline';
+import type { Resume, Work } from './types';
+
+const NOW = new Date(2024, 5, 15);
+
+const job = (name: string, startDate: string, endDate: string | null): Work => ({ name, position: 'Engineer', startDate, endDate, highlights: [] });
+
+const resume = (fields: Partial<Resume>): Resume => ({
+  basics: { name: 'Ada', label: 'Engineer' },
+  skills: [],
+  work: [],
+  projects: [],
+  education: [],
+  certificates: [],
+  ...fields,
+});
+
+describe('timelineItems', () => {
+  it('stacks overlapping roles on separate rows and reuses rows once free', () => {
+    const work = [job('A', '2019-01', '2020-12'), job('B', '2020-06', '2021-06'), job('C', '2021-01', null)];
+    const items = timelineItems(resume({ work }), NOW);
+    expect(items.map((i) => [i.detail, i.row])).toEqual([
+      ['A', 0],
+      ['B', 1],
+      ['C', 0],
+    ]);
+  });
+
+  it('leaves out entries whose dates do not parse', () => {
+    const items = timelineItems(resume({ work: [job('A', 'soon', null)], education: [{ institution: 'Uni' }], certificates: [{ name: 'Cert', date: 'once' }] }), NOW);
+    expect(items).toEqual([]);
+  });
+
+  it('shows certificates as points, one row each in date order', () => {
+    const certificates = [
+      { name: 'Later', date: '2023-05' },
+      { name: 'Earlier', date: '2021-02' },
+    ];
+    const items = timelineItems(resume({ certificates }), NOW);
+    expect(items.map((i) => [i.title, i.row, i.point, i.path])).toEqual([
+      ['Earlier', 0, true, 'certificates[1]'],
+      ['Later', 1, true, 'certificates[0]'],
+    ]);
+  });
+
+  it('paths each item at its position in the input when earlier entries were dropped', () => {
+    const input = { ...resume({}), work: [{ ...job('Broken', '2019-01', null), position: 3 }, job('Acme', '2020-01', null)] };
+    const { resume: validated, sourceIndexes } = validateResume(input);
+    expect(timelineItems(validated!, NOW, sourceIndexes).map((i) => i.path)).toEqual(['work[1]']);
+  });
+});
+
+describe('workGaps', () => {
+  it('finds the months between roles', () => {
+    const items = timelineItems(resume({ work: [job('A', '2019-01', '2019-12'), job('B', '2020-04', '2020-12'), job('C', '2021-01', null)] }), NOW);
+    expect(workGaps(items)).toEqual([{ start: 2020 * 12, end: 2020 * 12 + 3 }]);
+  });
+});
@@ -0,0 +1,71 @@
+import { formatDate, formatDateRange, formatDuration, mergeSpans, monthIndex, monthSpan, type MonthSpan } from './dates';
+import { entryPath, type SourceIndexes } from './schema';
+import type { Resume } from './types';
+
+export type TimelineLane = 'work' | 'education' | 'certificates';
+
+export type TimelineItem = MonthSpan & {
+  /** JSON path of the entry, e.g. `work[1]`. */
+  path: string;
+  lane: TimelineLane;
+  title: string;
+  detail?: string;
+  /** Dates, and for roles their length, as shown in the tooltip. */
+  when: string;
+  /** A single date, such as a certificate's, rather than a span. */
+  point: boolean;
+  /** Row within the lane, so that overlapping items sit one above the other. */
+  row: number;
+};
+
+export const TIMELINE_LANES: { id: TimelineLane; title: string }[] = [
+  { id: 'work', title: 'Work' },
+  { id: 'education', title: 'Education' },
+  { id: 'certificates', title: 'Certifications' },
+];
+
+/** Gives each item the first row of its lane where it doesn't overlap the one before. */
+function stack(items: Omit<TimelineItem, 'row'>[]): TimelineItem[] {
+  const rowEnds: number[] = [];
+  return [...items]
+    .sort((a, b) => a.start - b.start || b.end - a.end)
+    .map((item) => {
+      let row = rowEnds.findIndex((end) => end <= item.start);
+      if (row === -1) row = rowEnds.length;
+      rowEnds[row] = item.end;
+      return { ...item, row };
+    });
+}
+
+/** Work, education and certificates with dates that parse, for the Timeline editor. */
+export function timelineItems(resume: Resume, now = new Date(), sourceIndexes: SourceIndexes = {}): TimelineItem[] {
+  const work = resume.work.flatMap((w, i) => {
+    const span = monthSpan(w.startDate, w.endDate, now);
+    if (!span) return [];
+    const when = `${formatDateRange(w.startDate, w.endDate)} · ${formatDuration(span.end - span.start)}`;
+    return [{ ...span, path: entryPath(sourceIndexes, 'work', i), lane: 'work' as const, title: w.position, detail: w.name, when, point: false }];
+  });
+  const education = resume.education.flatMap((e, i) => {
+    const span = e.startDate ? monthSpan(e.startDate, e.endDate, now) : null;
+    if (!span) return [];
+    const title = [e.studyType, e.area].filter(Boolean).join(' | ') || e.institution;
+    const when = formatDateRange(e.startDate, e.endDate);
+    return [{ ...span, path: entryPath(sourceIndexes, 'education', i), lane: 'education' as const, title, detail: e.institution, when, point: false }];
+  });
+  // Certificates are single dates with their name beside them, so each gets a row of its own.
+  const certificates = resume.certificates
+    .flatMap((c, i) => {
+      const start = c.date ? monthIndex(c.date) : null;
+      if (!c.date || start === null) return [];
+      return [{ start, end: start + 1, path: entryPath(sourceIndexes, 'certificates', i), lane: 'certificates' as const, title: c.name, detail: c.issuer, when: formatDate(c.date), point: true }];
+    })
+    .sort((a, b) => a.start - b.start)
+    .map((item, row) => ({ ...item, row }));
+  return [...stack(work), ...stack(education), ...certificates];
+}
+
+/** Stretches between roles when no job was held, so they show on the timeline. */
+export function workGaps(items: TimelineItem[]): MonthSpan[] {
+  const merged = mergeSpans(items.filter((item) => item.lane === 'work'));
+  return merged.slice(1).map((span, i) => ({ start: merged[i].end, end: span.start }));
+}
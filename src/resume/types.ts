@@ -0,0 +1,65 @@
+export type Profile = { network: string; username?: string; url?: string | null };
+
+export type Work = {
+  name: string;
+  position: string;
+  startDate: string;
+  endDate: string | null;
+  highlights: string[];
+};
+
+export type Project = {
+  name: string;
+  year?: number;
+  summary?: string;
+  technologies?: string[];
+  url?: string | null;
+};
+
+export type Education = {
+  institution: string;
+  studyType?: string;
+  area?: string;
+  startDate?: string;
+  endDate?: string;
+  score?: string;
+};
+
+export type Certificate = { name: string; issuer?: string; date?: string };
+
+export type Volunteer = {
+  organization: string;
+  position: string;
+  url?: string;
+  startDate?: string;
+  endDate?: string;
+  summary?: string;
+  highlights?: string[];
+};
+
+export type Award = { title: string; date?: string; awarder?: string; summary?: string };
+
+export type Publication = { name: string; publisher?: string; releaseDate?: string; url?: string; summary?: string };
+
+export type Language = { language: string; fluency?: string };
+
+export type Resume = {
+  basics: {
+    name: string;
+    label: string;
+    summary?: string;
+    location?: { country?: string };
+    profiles?: Profile[];
+  };
+  skills: Array<{ name: string; keywords: string[] }>;
+  work: Work[];
+  projects: Project[];
+  education: Education[];
+  certificates: Certificate[];
+  volunteer?: Volunteer[];
+  awards?: Award[];
+  publications?: Publication[];
+  languages?: Language[];
+  interests?: string[];
+  meta?: Record<string, unknown>;
+};
@@ -0,0 +1,47 @@
+export type SearchOptions = {
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  regex: boolean;
+};
+
+export type LineMatch = {
+  /** Zero-based line index into the searched lines. */
+  line: number;
+  start: number;
+  end: number;
+  text: string;
+};
+
+export type MatcherResult = { matcher: RegExp | null; error?: string };
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function buildMatcher(query: string, options: SearchOptions): MatcherResult {
+  if (!query) return { matcher: null };
+  const source = options.regex ? query : escapeRegExp(query);
+  const pattern = options.wholeWord ? `\\b(?:${source})\\b` : source;
+  try {
+    return { matcher: new RegExp(pattern, options.caseSensitive ? 'g' : 'gi') };
+  } catch (err) {
+    return { matcher: null, error: err instanceof Error ? err.message : 'Invalid regular expression' };
+  }
+}
+
+export function searchLines(lines: string[], matcher: RegExp): LineMatch[] {
+  const out: LineMatch[] = [];
+  lines.forEach((text, line) => {
+    matcher.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = matcher.exec(text))) {
+      // Zero-width patterns like `^` would otherwise loop forever.
+      if (!m[0].length) {
+        matcher.lastIndex += 1;
+        continue;
+      }
+      out.push({ line, start: m.index, end: m.index + m[0].length, text });
+    }
+  });
+  return out;
+}
@@ -0,0 +1,134 @@
+import type { CursorPosition } from '../components/Editor';
+import type { Language } from '../highlight/tokenize';
+import type { ResumeSource } from '../resume/loader';
+import type { Problem } from '../resume/schema';
+import { experienceMonths, formatDuration } from '../resume/dates';
+import type { Resume } from '../resume/types';
+
+/** What status bar items can show, taken from the workbench on every render. */
+export type StatusBarContext = {
+  resume: Resume | null;
+  loading: boolean;
+  source: ResumeSource | null;
+  problems: Problem[];
+  /** The active file of the focused group, or null when that tab isn't a file (e.g. Keyboard Shortcuts). */
+  filePath: string | null;
+  language: Language | null;
+  cursor: CursorPosition | null;
+  /** Formatted keybinding of a command, for tooltips. */
+  shortcut: (commandId: string) => string | undefined;
+};
+
+export type StatusBarEntry = {
+  text: string;
+  tooltip?: string;
+  /** Id of the command run when the item is clicked. */
+  command?: string;
+};
+
+/**
+ * A status bar contribution. Items are laid out by `alignment`, and within a
+ * side by descending `priority`, as in VS Code; `render` returns null to hide
+ * the item.
+ */
+export type StatusBarItem = {
+  id: string;
+  alignment: 'left' | 'right';
+  priority: number;
+  render: (context: StatusBarContext) => StatusBarEntry | null;
+};
+
+const LANGUAGE_NAMES: Record<Language, string> = {
+  typescript: 'TypeScript',
+  tsx: 'TypeScript JSX',
+  json: 'JSON',
+  markdown: 'Markdown',
+  diff: 'Diff',
+  plaintext: 'Plain Text',
+};
+
+const withShortcut = (label: string, shortcut: string | undefined) => (shortcut ? `${label} (${shortcut})` : label);
+
+export const STATUS_BAR_ITEMS: StatusBarItem[] = [
+  {
+    id: 'problems',
+    alignment: 'left',
+    priority: 100,
+    render: ({ problems }) => {
+      const errors = problems.filter((p) => p.severity === 'error').length;
+      return {
+        text: `⊗ ${errors}  ⚠ ${problems.length - errors}`,
+        tooltip: `Errors: ${errors}, Warnings: ${problems.length - errors}`,
+        command: 'workbench.actions.view.problems',
+      };
+    },
+  },
+  {
+    id: 'terminal',
+    alignment: 'left',
+    priority: 90,
+    render: ({ shortcut }) => ({
+      text: '>_',
+      tooltip: withShortcut('Toggle Terminal', shortcut('workbench.action.terminal.toggleTerminal')),
+      command: 'workbench.action.terminal.toggleTerminal',
+    }),
+  },
+  {
+    id: 'resume.source',
+    alignment: 'left',
+    priority: 80,
+    render: ({ loading, source }) => {
+      if (loading || !source) return { text: '↻ Loading resume…' };
+      if (source.kind === 'bundled') {
+        return { text: '⚠ Bundled copy', tooltip: 'No source could be reached; showing the copy built into the site. Click to retry.', command: 'resume.reload' };
+      }
+      if (source.kind === 'cache') {
+        const saved = new Date(source.savedAt).toLocaleString();
+        return { text: '⚠ Offline copy', tooltip: `Copy of ${source.url} saved ${saved}; no source could be reached. Click to retry.`, command: 'resume.reload' };
+      }
+      const name = /^https?:/.test(source.url) ? new URL(source.url).host : source.url.split('/').pop();
+      return { text: `☁ ${name}`, tooltip: `Resume data from ${source.url}. Click to reload.`, command: 'resume.reload' };
+    },
+  },
+  {
+    id: 'cursor',
+    alignment: 'right',
+    priority: 100,
+    render: ({ cursor }) =>
+      cursor && {
+        text: `Ln ${cursor.line + 1}, Col ${cursor.column + 1}${cursor.selected ? ` (${cursor.selected} selected)` : ''}`,
+      },
+  },
+  {
+    id: 'language',
+    alignment: 'right',
+    priority: 90,
+    render: ({ language, filePath }) => language && { text: LANGUAGE_NAMES[language], tooltip: filePath ?? undefined },
+  },
+  {
+    id: 'resume.experience',
+    alignment: 'right',
+    priority: 80,
+    render: ({ resume }) =>
+      resume?.work.length
+        ? {
+            text: `${formatDuration(experienceMonths(resume.work))} experience`,
+            tooltip: `Across ${resume.work.length} role${resume.work.length === 1 ? '' : 's'}. Click to show the timeline.`,
+            command: 'resume.showTimeline',
+          }
+        : null,
+  },
+  {
+    id: 'resume.projects',
+    alignment: 'right',
+    priority: 70,
+    render: ({ resume }) =>
+      resume?.projects.length ? { text: `${resume.projects.length} project${resume.projects.length === 1 ? '' : 's'}` } : null,
+  },
+  {
+    id: 'credits',
+    alignment: 'right',
+    priority: 0,
+    render: () => ({ text: 'Developed with ♥ by Lalit', tooltip: 'Inspired by most used Code Editor.' }),
+  },
+];
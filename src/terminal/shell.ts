@@ -0,0 +1,140 @@
+import { buildMatcher, searchLines } from '../search/textSearch';
+
+export type VirtualFile = { path: string; lines: string[] };
+
+export type ShellContext = {
+  files: VirtualFile[];
+  /** Lines printed by `whoami`. */
+  identity: string[];
+  open: (path: string) => void;
+};
+
+export type TerminalLine = { text: string; kind: 'input' | 'output' | 'error' };
+
+/** `clear` is the one command that affects the scrollback instead of appending to it. */
+export type ShellResult = { lines: TerminalLine[]; clear?: boolean };
+
+type Builtin = {
+  usage: string;
+  description: string;
+  run: (args: string[], ctx: ShellContext) => ShellResult;
+};
+
+const out = (...text: string[]): ShellResult => ({ lines: text.map((t) => ({ text: t, kind: 'output' })) });
+const err = (text: string): ShellResult => ({ lines: [{ text, kind: 'error' }] });
+
+function findFile(ctx: ShellContext, name: string): VirtualFile | undefined {
+  const path = name.replace(/^(\.\/|~\/)/, '');
+  return ctx.files.find((f) => f.path === path);
+}
+
+const BUILTINS: Record<string, Builtin> = {
+  help: {
+    usage: 'help',
+    description: 'List the available commands',
+    run: () => out(...Object.values(BUILTINS).map((b) => `${b.usage.padEnd(22)}${b.description}`)),
+  },
+  ls: {
+    usage: 'ls [-l]',
+    description: 'List the resume files',
+    run: (args, ctx) =>
+      args.includes('-l')
+        ? out(...ctx.files.map((f) => `${String(f.lines.length).padStart(4)} lines  ${f.path}`))
+        : out(ctx.files.map((f) => f.path).join('  ')),
+  },
+  cat: {
+    usage: 'cat <file>...',
+    description: 'Print the contents of files',
+    run: (args, ctx) => {
+      if (!args.length) return err('cat: missing file operand');
+      const lines: TerminalLine[] = [];
+      args.forEach((name) => {
+        const file = findFile(ctx, name);
+        if (file) file.lines.forEach((text) => lines.push({ text, kind: 'output' }));
+        else lines.push({ text: `cat: ${name}: No such file or directory`, kind: 'error' });
+      });
+      return { lines };
+    },
+  },
+  open: {
+    usage: 'open <file>',
+    description: 'Open a file in the editor',
+    run: (args, ctx) => {
+      if (!args.length) return err('open: missing file operand');
+      const file = findFile(ctx, args[0]);
+      if (!file) return err(`open: ${args[0]}: No such file or directory`);
+      ctx.open(file.path);
+      return out(`Opened ${file.path}`);
+    },
+  },
+  grep: {
+    usage: 'grep [-i] <pattern>',
+    description: 'Search every file for a regular expression',
+    run: (args, ctx) => {
+      const ignoreCase = args.includes('-i');
+      const pattern = args.filter((a) => a !== '-i').join(' ');
+      if (!pattern) return err('usage: grep [-i] <pattern>');
+      const { matcher, error } = buildMatcher(pattern, { caseSensitive: !ignoreCase, wholeWord: false, regex: true });
+      if (!matcher) return err(`grep: ${error ?? 'invalid pattern'}`);
+      const hits: string[] = [];
+      ctx.files.forEach((f) => {
+        const seen = new Set<number>();
+        searchLines(f.lines, matcher).forEach((m) => {
+          if (seen.has(m.line)) return;
+          seen.add(m.line);
+          hits.push(`${f.path}:${m.line + 1}: ${m.text.trim()}`);
+        });
+      });
+      return hits.length ? out(...hits) : { lines: [] };
+    },
+  },
+  whoami: {
+    usage: 'whoami',
+    description: 'Print who this resume belongs to',
+    run: (_, ctx) => out(...ctx.identity),
+  },
+  clear: {
+    usage: 'clear',
+    description: 'Clear the terminal',
+    run: () => ({ lines: [], clear: true }),
+  },
+};
+
+export const COMMAND_NAMES = Object.keys(BUILTINS);
+
+/** Splits on whitespace, keeping single- or double-quoted arguments together. */
+function parseArgs(input: string): string[] {
+  return [...input.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g)].map((m) => m[1] ?? m[2] ?? m[3]);
+}
+
+export function runCommand(input: string, ctx: ShellContext): ShellResult {
+  const [name, ...args] = parseArgs(input.trim());
+  if (!name) return { lines: [] };
+  const builtin = BUILTINS[name];
+  if (!builtin) return err(`${name}: command not found. Type 'help' for a list of commands.`);
+  return builtin.run(args, ctx);
+}
+
+function commonPrefix(values: string[]): string {
+  return values.reduce((prefix, v) => {
+    let i = 0;
+    while (i < prefix.length && prefix[i] === v[i]) i++;
+    return prefix.slice(0, i);
+  });
+}
+
+/**
+ * Completes the last word of the input: command names in first position,
+ * file paths after that. Ambiguous prefixes extend to the longest common
+ * prefix and report the candidates.
+ */
+export function complete(input: string, ctx: ShellContext): { input: string; candidates: string[] } {
+  const match = /(\S*)$/.exec(input)!;
+  const word = match[1];
+  const head = input.slice(0, input.length - word.length);
+  const pool = head.trim() ? ctx.files.map((f) => f.path) : COMMAND_NAMES;
+  const candidates = pool.filter((c) => c.startsWith(word));
+  if (!candidates.length) return { input, candidates: [] };
+  if (candidates.length === 1) return { input: `${head}${candidates[0]} `, candidates: [] };
+  return { input: `${head}${commonPrefix(candidates)}`, candidates };
+}
@@ -0,0 +1,87 @@
+import dark from './dark.json';
+import highContrast from './high-contrast.json';
+import light from './light.json';
+
+/** Every theme file must define these; each becomes a `--color-<token>` variable and Tailwind color. */
+export const COLOR_TOKENS = [
+  'workbench',
+  'editor',
+  'divider',
+  'selection',
+  'input',
+  'accent',
+  'fg',
+  'fg-secondary',
+  'fg-muted',
+  'fg-subtle',
+  'error',
+  'warning',
+  'menu',
+  'menu-border',
+  'menu-fg',
+  'menu-hover',
+  'syntax-keyword',
+  'syntax-type',
+  'syntax-string',
+  'syntax-number',
+  'syntax-comment',
+  'syntax-property',
+  'syntax-punctuation',
+  'syntax-tag',
+  'syntax-attribute',
+  'syntax-link',
+  'diff-inserted',
+  'diff-removed',
+] as const;
+
+export type ColorToken = (typeof COLOR_TOKENS)[number];
+
+export type Theme = {
+  id: string;
+  label: string;
+  type: 'dark' | 'light';
+  colors: Record<ColorToken, string>;
+};
+
+/** `system` follows `prefers-color-scheme`; anything else is a theme id. */
+export type ThemePreference = 'system' | string;
+
+type ThemeFile = { id: string; label: string; type: string; colors: Partial<Record<string, string>> };
+
+function defineTheme(file: ThemeFile): Theme {
+  const missing = COLOR_TOKENS.filter((token) => !file.colors[token]);
+  if (missing.length) throw new Error(`Theme "${file.id}" is missing colors: ${missing.join(', ')}`);
+  return { ...file, type: file.type === 'light' ? 'light' : 'dark', colors: file.colors as Theme['colors'] };
+}
+
+export const THEMES: Theme[] = [dark, light, highContrast].map(defineTheme);
+
+const STORAGE_KEY = 'vscode-resume.theme';
+
+export function resolveTheme(preference: ThemePreference, prefersLight: boolean): Theme {
+  const id = preference === 'system' ? (prefersLight ? 'light' : 'dark') : preference;
+  return THEMES.find((t) => t.id === id) ?? THEMES[0];
+}
+
+export function applyTheme(theme: Theme) {
+  const root = document.documentElement;
+  COLOR_TOKENS.forEach((token) => root.style.setProperty(`--color-${token}`, theme.colors[token]));
+  root.style.colorScheme = theme.type;
+  root.dataset.theme = theme.id;
+}
+
+export function loadThemePreference(): ThemePreference {
+  try {
+    return localStorage.getItem(STORAGE_KEY) ?? 'system';
+  } catch {
+    return 'system';
+  }
+}
+
+export function saveThemePreference(preference: ThemePreference) {
+  try {
+    localStorage.setItem(STORAGE_KEY, preference);
+  } catch {
+    // Falls back to following the system scheme on the next visit.
+  }
+}
@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { applyTheme, loadThemePreference, resolveTheme, saveThemePreference, type ThemePreference } from './index';
+
+const LIGHT_QUERY = '(prefers-color-scheme: light)';
+
+export function useColorTheme() {
+  const [preference, setPreference] = useState<ThemePreference>(loadThemePreference);
+  const [prefersLight, setPrefersLight] = useState(() => window.matchMedia(LIGHT_QUERY).matches);
+  const theme = resolveTheme(preference, prefersLight);
+
+  useEffect(() => {
+    const media = window.matchMedia(LIGHT_QUERY);
+    const onChange = (e: MediaQueryListEvent) => setPrefersLight(e.matches);
+    media.addEventListener('change', onChange);
+    return () => media.removeEventListener('change', onChange);
+  }, []);
+
+  useEffect(() => {
+    applyTheme(theme);
+  }, [theme]);
+
+  useEffect(() => {
+    saveThemePreference(preference);
+  }, [preference]);
+
+  return { theme, preference, setPreference };
+}
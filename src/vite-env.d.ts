@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Comma-separated resume data URLs, tried in order; see `resumeSources`. */
+  readonly VITE_RESUME_SOURCES?: string;
+}
+
+/** public/resume.json, validated at build time; see `bundledResume` in vite.config.ts. */
+declare module 'virtual:bundled-resume' {
+  const resume: unknown;
+  export default resume;
+}
@@ -0,0 +1,91 @@
+import { sanitizeGrid, type GridNode } from './grid';
+import type { WorkspaceState } from './storage';
+
+export type EditorLayout<Id extends string> = Pick<WorkspaceState<Id>, 'grid'>;
+
+function encodeNode<Id extends string>(node: GridNode<Id>): string {
+  if (node.kind === 'group') return node.tabs.map((id) => (id === node.active ? '*' : '') + encodeURIComponent(id)).join(',');
+  const children = node.children.map((c, i) => `${encodeNode(c)}~${node.sizes[i].toFixed(2)}`);
+  return `${node.orientation === 'horizontal' ? 'h' : 'v'}(${children.join('|')})`;
+}
+
+/**
+ * Serializes the editor grid as a readable hash fragment. A group is its tabs with
+ * the active one starred; `h(…)` and `v(…)` are side-by-side and stacked splits
+ * whose children carry their share after `~`, e.g.
+ * `grid=h(home,*experience~0.50|v(*skills~0.60|contact~0.40)~0.50)`.
+ */
+export function encodeLayout<Id extends string>(layout: EditorLayout<Id>): string {
+  return `grid=${encodeNode(layout.grid)}`;
+}
+
+/** Parses the `grid` notation into the loose shape `sanitizeGrid` validates; throws on malformed input. */
+function parseGrid(text: string): unknown {
+  let pos = 0;
+  let groups = 0;
+  const expect = (ch: string) => {
+    if (text[pos] !== ch) throw new Error(`Expected '${ch}' at ${pos}`);
+    pos++;
+  };
+
+  function node(): unknown {
+    if ((text[pos] === 'h' || text[pos] === 'v') && text[pos + 1] === '(') {
+      const orientation = text[pos] === 'h' ? 'horizontal' : 'vertical';
+      pos += 2;
+      const children: unknown[] = [];
+      const sizes: number[] = [];
+      do {
+        if (children.length) expect('|');
+        children.push(node());
+        const size = /^~([\d.]+)/.exec(text.slice(pos));
+        sizes.push(size ? Number(size[1]) : 1);
+        pos += size ? size[0].length : 0;
+      } while (text[pos] === '|');
+      expect(')');
+      return { kind: 'split', orientation, children, sizes };
+    }
+    const match = /^[^|()~]+/.exec(text.slice(pos));
+    if (!match) throw new Error(`Expected tabs at ${pos}`);
+    pos += match[0].length;
+    const items = match[0].split(',').filter(Boolean);
+    const active = items.find((t) => t.startsWith('*'));
+    const decode = (t: string) => decodeURIComponent(t.replace(/^\*/, ''));
+    return { kind: 'group', id: String(++groups), tabs: items.map(decode), active: active ? decode(active) : null };
+  }
+
+  const root = node();
+  if (pos !== text.length) throw new Error(`Unexpected '${text[pos]}' at ${pos}`);
+  return root;
+}
+
+/** Links from before the grid existed: `left=…&active=…&right=…&rightActive=…&ratio=…`. */
+function legacyGrid(params: URLSearchParams): unknown {
+  const split = (key: string) => (params.get(key) ?? '').split(',').filter(Boolean);
+  const left = { kind: 'group', id: '1', tabs: split('left'), active: params.get('active') };
+  if (!params.has('right')) return left;
+  const right = { kind: 'group', id: '2', tabs: split('right'), active: params.get('rightActive') };
+  const ratio = Number(params.get('ratio'));
+  const share = Number.isFinite(ratio) && ratio > 0 ? Math.min(Math.max(ratio, 0.2), 0.8) : 0.5;
+  return { kind: 'split', orientation: 'horizontal', children: [left, right], sizes: [share, 1 - share] };
+}
+
+/** Parses a hash produced by `encodeLayout`; unknown section ids are dropped, and null means "no usable layout in the URL". */
+export function decodeLayout<Id extends string>(hash: string, isKnown: (id: string) => id is Id): EditorLayout<Id> | null {
+  const raw = hash.replace(/^#/, '');
+  // Read `grid` undecoded: tab ids are escaped individually, so decoding first could let one break the notation.
+  const gridParam = raw.split('&').find((p) => p.startsWith('grid='));
+  let loose: unknown;
+  if (gridParam) {
+    try {
+      loose = parseGrid(gridParam.slice('grid='.length));
+    } catch {
+      return null;
+    }
+  } else {
+    const params = new URLSearchParams(raw);
+    if (!params.has('left') && !params.has('right')) return null;
+    loose = legacyGrid(params);
+  }
+  const grid = sanitizeGrid(loose, isKnown);
+  return grid ? { grid } : null;
+}
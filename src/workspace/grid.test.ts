@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { groupsOf, moveTab, nextGroupId, openInGroup, prune, removeFromGroup, sanitizeGrid, singleGroup, splitGroup, type GridNode } from './grid';
+
+type Tab = 'a' | 'b' | 'c' | 'd';
+
+const isTab = (id: string): id is Tab => ['a', 'b', 'c', 'd'].includes(id);
+
+const tabsOf = (grid: GridNode<Tab>) => groupsOf(grid).map((g) => g.tabs);
+
+describe('openInGroup', () => {
+  it('activates a tab that is already open without moving it', () => {
+    expect(openInGroup(singleGroup<Tab>(['a', 'b', 'c'], 'a'), '1', 'b')).toEqual(singleGroup(['a', 'b', 'c'], 'b'));
+  });
+
+  it('moves a tab to the index it is dropped at, counted before it was taken out', () => {
+    expect(tabsOf(openInGroup(singleGroup<Tab>(['a', 'b', 'c']), '1', 'a', 2))).toEqual([['b', 'a', 'c']]);
+    expect(tabsOf(openInGroup(singleGroup<Tab>(['a', 'b', 'c']), '1', 'c', 0))).toEqual([['c', 'a', 'b']]);
+  });
+});
+
+describe('removeFromGroup', () => {
+  it('activates the tab before the closed one', () => {
+    const grid = removeFromGroup(singleGroup<Tab>(['a', 'b', 'c'], 'c'), '1', (t) => t === 'c');
+    expect(grid).toEqual(singleGroup(['a', 'b'], 'b'));
+  });
+
+  it('collapses a split when one of its groups empties', () => {
+    const split = splitGroup(singleGroup<Tab>(['a']), '1', 'right', { id: '2', tabs: ['b'], active: 'b' });
+    expect(removeFromGroup(split, '2', () => true)).toEqual(singleGroup(['a'], 'a'));
+  });
+});
+
+describe('splitGroup', () => {
+  it('halves the target within a split that runs the same way', () => {
+    const row = splitGroup(singleGroup<Tab>(['a']), '1', 'right', { id: '2', tabs: ['b'], active: 'b' });
+    const grid = splitGroup(row, '2', 'left', { id: '3', tabs: ['c'], active: 'c' });
+    expect(grid).toMatchObject({ kind: 'split', orientation: 'horizontal', sizes: [0.5, 0.25, 0.25] });
+    expect(groupsOf(grid).map((g) => g.id)).toEqual(['1', '3', '2']);
+  });
+
+  it('nests a split that runs the other way', () => {
+    const row = splitGroup(singleGroup<Tab>(['a']), '1', 'right', { id: '2', tabs: ['b'], active: 'b' });
+    const grid = splitGroup(row, '2', 'down', { id: '3', tabs: ['c'], active: 'c' });
+    expect(grid).toMatchObject({ kind: 'split', children: [{ id: '1' }, { kind: 'split', orientation: 'vertical' }] });
+  });
+});
+
+describe('moveTab', () => {
+  it('takes the tab out of its group and drops that group once empty', () => {
+    const split = splitGroup(singleGroup<Tab>(['a', 'b']), '1', 'right', { id: '2', tabs: ['c'], active: 'c' });
+    expect(tabsOf(moveTab(split, 'c', '2', '1', 0))).toEqual([['c', 'a', 'b']]);
+  });
+
+  it('opens a tab from outside the grid without touching other groups', () => {
+    const split = splitGroup(singleGroup<Tab>(['a', 'b']), '1', 'right', { id: '2', tabs: ['b'], active: 'b' });
+    expect(tabsOf(moveTab(split, 'b', null, '1'))).toEqual([['a', 'b'], ['b']]);
+  });
+});
+
+describe('prune', () => {
+  it('merges nested splits that run the same way, scaling their sizes', () => {
+    const grid: GridNode<Tab> = {
+      kind: 'split',
+      orientation: 'horizontal',
+      sizes: [0.5, 0.5],
+      children: [
+        singleGroup(['a'], 'a', '1'),
+        { kind: 'split', orientation: 'horizontal', sizes: [0.5, 0.5], children: [singleGroup(['b'], 'b', '2'), singleGroup(['c'], 'c', '3')] },
+      ],
+    };
+    expect(prune(grid)).toMatchObject({ sizes: [0.5, 0.25, 0.25], children: [{ id: '1' }, { id: '2' }, { id: '3' }] });
+  });
+});
+
+describe('nextGroupId', () => {
+  it('numbers past the highest id in use', () => {
+    const split = splitGroup(singleGroup<Tab>(['a'], 'a', '4'), '4', 'right', { id: '2', tabs: ['b'], active: 'b' });
+    expect(nextGroupId(split)).toBe('5');
+  });
+});
+
+describe('sanitizeGrid', () => {
+  it('drops unknown tabs and groups left without any', () => {
+    const raw = {
+      kind: 'split',
+      orientation: 'horizontal',
+      sizes: [1, 1],
+      children: [
+        { kind: 'group', id: '1', tabs: ['a', 'nope'], active: 'nope' },
+        { kind: 'group', id: '2', tabs: ['nope'] },
+      ],
+    };
+    expect(sanitizeGrid(raw, isTab)).toEqual(singleGroup(['a'], 'a', '1'));
+  });
+
+  it('renumbers ids that are not numbers or are used twice', () => {
+    const raw = {
+      kind: 'split',
+      orientation: 'vertical',
+      sizes: [1, 1, 1],
+      children: [
+        { kind: 'group', id: 'explorer', tabs: ['a'] },
+        { kind: 'group', id: '1', tabs: ['b'] },
+        { kind: 'group', id: '1', tabs: ['c'] },
+      ],
+    };
+    const ids = groupsOf(sanitizeGrid(raw, isTab)!).map((g) => g.id);
+    expect(ids.every((id) => /^\d+$/.test(id))).toBe(true);
+    expect(new Set(ids).size).toBe(3);
+  });
+
+  it('repairs sizes that are missing or not positive', () => {
+    const raw = { kind: 'split', orientation: 'horizontal', sizes: [-1], children: [{ kind: 'group', tabs: ['a'] }, { kind: 'group', tabs: ['b'] }] };
+    expect(sanitizeGrid(raw, isTab)).toMatchObject({ sizes: [0.5, 0.5] });
+  });
+
+  it('returns null for data that is not a grid', () => {
+    expect(sanitizeGrid('layout', isTab)).toBeNull();
+    expect(sanitizeGrid({ kind: 'group', tabs: [] }, isTab)).toBeNull();
+  });
+});
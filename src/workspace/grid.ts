@@ -0,0 +1,179 @@
+/** Groups are numbered, so a group id can't be mistaken for a tab id or a name such as `explorer`. */
+export type GroupId = `${number}`;
+
+/** Side of an existing group that a new group is split off to. */
+export type SplitDirection = 'left' | 'right' | 'up' | 'down';
+
+export type EditorGroup<Id extends string> = { id: GroupId; tabs: Id[]; active: Id | null };
+
+/**
+ * Recursive editor layout: a leaf is an editor group, a split lays its children
+ * out side by side (`horizontal`) or stacked (`vertical`). `sizes` are fractions
+ * of the split that add up to 1.
+ */
+export type GridNode<Id extends string> =
+  | ({ kind: 'group' } & EditorGroup<Id>)
+  | { kind: 'split'; orientation: 'horizontal' | 'vertical'; children: GridNode<Id>[]; sizes: number[] };
+
+type GroupNode<Id extends string> = Extract<GridNode<Id>, { kind: 'group' }>;
+
+/** Smallest share of a split a child can be resized down to. */
+export const MIN_SIZE = 0.1;
+
+export function singleGroup<Id extends string>(tabs: Id[], active: Id | null = tabs[0] ?? null, id: GroupId = '1'): GridNode<Id> {
+  return { kind: 'group', id, tabs, active };
+}
+
+/** Groups in reading order: left to right, top to bottom. */
+export function groupsOf<Id extends string>(node: GridNode<Id>): GroupNode<Id>[] {
+  return node.kind === 'group' ? [node] : node.children.flatMap(groupsOf);
+}
+
+export function findGroup<Id extends string>(node: GridNode<Id>, id: GroupId): GroupNode<Id> | undefined {
+  return groupsOf(node).find((g) => g.id === id);
+}
+
+export function nextGroupId<Id extends string>(node: GridNode<Id>): GroupId {
+  return `${Math.max(0, ...groupsOf(node).map((g) => Number(g.id) || 0)) + 1}`;
+}
+
+export function mapGroups<Id extends string>(node: GridNode<Id>, fn: (group: GroupNode<Id>) => GroupNode<Id>): GridNode<Id> {
+  return node.kind === 'group' ? fn(node) : { ...node, children: node.children.map((c) => mapGroups(c, fn)) };
+}
+
+function updateGroup<Id extends string>(node: GridNode<Id>, id: GroupId, fn: (group: GroupNode<Id>) => GroupNode<Id>): GridNode<Id> {
+  return mapGroups(node, (g) => (g.id === id ? fn(g) : g));
+}
+
+/** Shows a tab in a group, moving it to `index` (the end by default) when given or when it isn't open there yet. */
+export function openInGroup<Id extends string>(node: GridNode<Id>, groupId: GroupId, tabId: Id, index?: number): GridNode<Id> {
+  return updateGroup(node, groupId, (g) => {
+    const current = g.tabs.indexOf(tabId);
+    if (current !== -1 && index === undefined) return { ...g, active: tabId };
+    const without = g.tabs.filter((t) => t !== tabId);
+    // Taking the tab out from before the insertion point shifts that point left by one.
+    let at = index ?? without.length;
+    if (current !== -1 && current < at) at -= 1;
+    at = Math.min(Math.max(at, 0), without.length);
+    return { ...g, tabs: [...without.slice(0, at), tabId, ...without.slice(at)], active: tabId };
+  });
+}
+
+/** Removes tabs from a group, activating the nearest remaining one, and collapses the group if it empties. */
+export function removeFromGroup<Id extends string>(node: GridNode<Id>, groupId: GroupId, remove: (tabId: Id) => boolean): GridNode<Id> {
+  const next = updateGroup(node, groupId, (g) => {
+    const tabs = g.tabs.filter((t) => !remove(t));
+    if (g.active !== null && tabs.includes(g.active)) return { ...g, tabs };
+    const idx = g.active === null ? 0 : g.tabs.indexOf(g.active);
+    const neighbour = g.tabs.slice(0, idx).reverse().find((t) => tabs.includes(t)) ?? tabs[0] ?? null;
+    return { ...g, tabs, active: neighbour };
+  });
+  return prune(next);
+}
+
+/** Adds `group` next to the group `targetId`, on the given side. */
+export function splitGroup<Id extends string>(node: GridNode<Id>, targetId: GroupId, direction: SplitDirection, group: EditorGroup<Id>): GridNode<Id> {
+  const orientation = direction === 'left' || direction === 'right' ? 'horizontal' : 'vertical';
+  const before = direction === 'left' || direction === 'up';
+  const leaf: GridNode<Id> = { kind: 'group', ...group };
+
+  function visit(n: GridNode<Id>): GridNode<Id> {
+    if (n.kind === 'group') {
+      if (n.id !== targetId) return n;
+      return { kind: 'split', orientation, children: before ? [leaf, n] : [n, leaf], sizes: [0.5, 0.5] };
+    }
+    const idx = n.children.findIndex((c) => c.kind === 'group' && c.id === targetId);
+    if (idx !== -1 && n.orientation === orientation) {
+      // Split within the existing row or column, halving the target's share.
+      const half = n.sizes[idx] / 2;
+      const at = before ? idx : idx + 1;
+      const sizes = [...n.sizes];
+      sizes[idx] = half;
+      sizes.splice(at, 0, half);
+      const children = [...n.children];
+      children.splice(at, 0, leaf);
+      return { ...n, children, sizes };
+    }
+    return { ...n, children: n.children.map(visit) };
+  }
+  return visit(node);
+}
+
+/**
+ * Moves a tab into a group, from another group or (with `fromId` null) from outside
+ * the grid. The source group collapses if that was its last tab.
+ */
+export function moveTab<Id extends string>(node: GridNode<Id>, tabId: Id, fromId: GroupId | null, toId: GroupId, index?: number): GridNode<Id> {
+  const placed = openInGroup(node, toId, tabId, index);
+  return fromId === null || fromId === toId ? placed : removeFromGroup(placed, fromId, (t) => t === tabId);
+}
+
+/** Sets the sizes of the split reached by following child indices `path` from the root. */
+export function resizeSplit<Id extends string>(node: GridNode<Id>, path: number[], sizes: number[]): GridNode<Id> {
+  if (node.kind === 'group') return node;
+  if (!path.length) return { ...node, sizes };
+  const [head, ...rest] = path;
+  return { ...node, children: node.children.map((c, i) => (i === head ? resizeSplit(c, rest, sizes) : c)) };
+}
+
+/**
+ * Drops empty groups (keeping at least one), unwraps splits left with a single
+ * child and merges nested splits that run the same way.
+ */
+export function prune<Id extends string>(node: GridNode<Id>): GridNode<Id> {
+  function visit(n: GridNode<Id>): GridNode<Id> | null {
+    if (n.kind === 'group') return n.tabs.length ? n : null;
+    const children: GridNode<Id>[] = [];
+    const sizes: number[] = [];
+    n.children.forEach((child, i) => {
+      const c = visit(child);
+      if (!c) return;
+      if (c.kind === 'split' && c.orientation === n.orientation) {
+        children.push(...c.children);
+        sizes.push(...c.sizes.map((s) => s * n.sizes[i]));
+      } else {
+        children.push(c);
+        sizes.push(n.sizes[i]);
+      }
+    });
+    if (!children.length) return null;
+    if (children.length === 1) return children[0];
+    const total = sizes.reduce((a, b) => a + b, 0);
+    return { ...n, children, sizes: sizes.map((s) => s / total) };
+  }
+  return visit(node) ?? groupsOf(node)[0];
+}
+
+/**
+ * Rebuilds a grid from untrusted data (storage or a link): unknown tab ids are
+ * dropped, sizes repaired, and null is returned when no group survives.
+ */
+export function sanitizeGrid<Id extends string>(value: unknown, isKnown: (id: string) => id is Id): GridNode<Id> | null {
+  const used = new Set<string>();
+  function visit(raw: unknown): GridNode<Id> | null {
+    const n = (raw ?? {}) as Record<string, unknown>;
+    if (n.kind === 'group') {
+      const tabs = [...new Set(Array.isArray(n.tabs) ? n.tabs.filter((id): id is Id => typeof id === 'string' && isKnown(id)) : [])];
+      if (!tabs.length) return null;
+      let id: GroupId | '' = typeof n.id === 'string' && /^\d+$/.test(n.id) ? (n.id as GroupId) : '';
+      if (!id || used.has(id)) id = `${used.size + 1}`;
+      while (used.has(id)) id = `${Number(id) + 1}`;
+      used.add(id);
+      return { kind: 'group', id, tabs, active: tabs.find((t) => t === n.active) ?? tabs[0] };
+    }
+    if (n.kind === 'split' && (n.orientation === 'horizontal' || n.orientation === 'vertical') && Array.isArray(n.children)) {
+      const raws = Array.isArray(n.sizes) ? n.sizes : [];
+      const pairs = n.children.flatMap((c, i) => {
+        const child = visit(c);
+        const size = typeof raws[i] === 'number' && raws[i] > 0 ? (raws[i] as number) : 1;
+        return child ? [{ child, size }] : [];
+      });
+      if (!pairs.length) return null;
+      const total = pairs.reduce((a, p) => a + p.size, 0);
+      const sizes = pairs.map((p) => Math.max(p.size / total, MIN_SIZE));
+      return prune({ kind: 'split', orientation: n.orientation, children: pairs.map((p) => p.child), sizes });
+    }
+    return null;
+  }
+  return visit(value);
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { groupsOf, removeFromGroup, singleGroup, splitGroup, type GridNode } from './grid';
+import { closedTabs, recordLayout, redoLayout, rememberClosed, restoreTab, takeClosedTab, undoLayout, type ClosedTab, type LayoutHistory } from './history';
+
+type Tab = 'a' | 'b' | 'c';
+
+const row = (): GridNode<Tab> => splitGroup(singleGroup<Tab>(['a', 'b']), '1', 'right', { id: '2', tabs: ['c'], active: 'c' });
+
+describe('closed tabs', () => {
+  it('records the tabs closed from a group with their index', () => {
+    expect(closedTabs(row(), '1', (t) => t === 'b')).toEqual([{ id: 'b', group: '1', index: 1 }]);
+  });
+
+  it('keeps only the most recent entries', () => {
+    const closed: ClosedTab<Tab>[] = Array.from({ length: 60 }, (_, index) => ({ id: 'a', group: '1', index }));
+    const history = rememberClosed([], closed);
+    expect(history).toHaveLength(50);
+    expect(history[49].index).toBe(59);
+  });
+
+  it('reopens the last tab closed from the active group before one closed elsewhere', () => {
+    const history: ClosedTab<Tab>[] = [
+      { id: 'a', group: '1', index: 0 },
+      { id: 'c', group: '2', index: 0 },
+    ];
+    const grid = singleGroup<Tab>(['b']);
+    expect(takeClosedTab(history, grid, '1')).toEqual({ entry: history[0], rest: [history[1]] });
+    expect(takeClosedTab(history, grid, '3').entry).toEqual(history[1]);
+  });
+
+  it('skips entries for tabs that are open in their group again', () => {
+    const history: ClosedTab<Tab>[] = [{ id: 'b', group: '1', index: 1 }];
+    expect(takeClosedTab(history, row(), '1')).toEqual({ entry: null, rest: [] });
+  });
+
+  it('puts a tab back at its index', () => {
+    const grid = removeFromGroup(row(), '1', (t) => t === 'a');
+    expect(groupsOf(restoreTab(grid, { id: 'a', group: '1', index: 0 }, '2'))[0].tabs).toEqual(['a', 'b']);
+  });
+
+  it('recreates a group that was closed, beside the active one', () => {
+    const grid = removeFromGroup(row(), '2', () => true);
+    const restored = restoreTab(grid, { id: 'c', group: '2', index: 0 }, '1');
+    expect(groupsOf(restored).map((g) => [g.id, g.tabs])).toEqual([
+      ['1', ['a', 'b']],
+      ['2', ['c']],
+    ]);
+  });
+});
+
+describe('layout history', () => {
+  it('undoes and redoes layout changes', () => {
+    const before = singleGroup<Tab>(['a', 'b']);
+    const after = row();
+    const history = recordLayout({ past: [], future: [] }, before);
+    const undone = undoLayout(history, after)!;
+    expect(undone.grid).toBe(before);
+    const redone = redoLayout(undone.history, undone.grid)!;
+    expect(redone.grid).toBe(after);
+    expect(redone.history).toEqual(history);
+  });
+
+  it('drops what was undone once a new change is made', () => {
+    const history: LayoutHistory<Tab> = { past: [], future: [row()] };
+    expect(recordLayout(history, singleGroup(['a'])).future).toEqual([]);
+  });
+
+  it('has nothing to undo or redo at either end', () => {
+    expect(undoLayout({ past: [], future: [] }, row())).toBeNull();
+    expect(redoLayout({ past: [], future: [] }, row())).toBeNull();
+  });
+});
@@ -0,0 +1,60 @@
+import { findGroup, openInGroup, splitGroup, type GridNode, type GroupId } from './grid';
+
+/** How many closed tabs and layout steps are remembered. */
+const HISTORY_LIMIT = 50;
+
+/** A tab closed from a group, and the index it had there. */
+export type ClosedTab<Id extends string> = { id: Id; group: GroupId; index: number };
+
+/** Layouts to go back to, most recent last, and layouts undone since, most recent first. */
+export type LayoutHistory<Id extends string> = { past: GridNode<Id>[]; future: GridNode<Id>[] };
+
+/** The tabs of a group that `remove` picks, in tab order, as entries for the closed-tab history. */
+export function closedTabs<Id extends string>(grid: GridNode<Id>, groupId: GroupId, remove: (tabId: Id) => boolean): ClosedTab<Id>[] {
+  return (findGroup(grid, groupId)?.tabs ?? []).flatMap((id, index) => (remove(id) ? [{ id, group: groupId, index }] : []));
+}
+
+export function rememberClosed<Id extends string>(history: ClosedTab<Id>[], closed: ClosedTab<Id>[]): ClosedTab<Id>[] {
+  return [...history, ...closed].slice(-HISTORY_LIMIT);
+}
+
+/**
+ * Takes the tab to reopen: the last one closed from `group`, or failing that the
+ * last one closed anywhere, such as from a group that Close All removed. Entries
+ * for tabs that are open in their group again are dropped along the way.
+ */
+export function takeClosedTab<Id extends string>(
+  history: ClosedTab<Id>[],
+  grid: GridNode<Id>,
+  group: GroupId,
+): { entry: ClosedTab<Id> | null; rest: ClosedTab<Id>[] } {
+  const rest = history.filter((e) => !findGroup(grid, e.group)?.tabs.includes(e.id));
+  let at = rest.map((e) => e.group).lastIndexOf(group);
+  if (at === -1) at = rest.length - 1;
+  if (at === -1) return { entry: null, rest };
+  return { entry: rest[at], rest: [...rest.slice(0, at), ...rest.slice(at + 1)] };
+}
+
+/**
+ * Puts a closed tab back at its index in its group. A group that no longer exists
+ * is recreated, under its old id, to the right of `beside`.
+ */
+export function restoreTab<Id extends string>(grid: GridNode<Id>, entry: ClosedTab<Id>, beside: GroupId): GridNode<Id> {
+  if (findGroup(grid, entry.group)) return openInGroup(grid, entry.group, entry.id, entry.index);
+  return splitGroup(grid, beside, 'right', { id: entry.group, tabs: [entry.id], active: entry.id });
+}
+
+/** Records the layout a change is about to replace; a new change discards anything undone. */
+export function recordLayout<Id extends string>(history: LayoutHistory<Id>, grid: GridNode<Id>): LayoutHistory<Id> {
+  return { past: [...history.past, grid].slice(-HISTORY_LIMIT), future: [] };
+}
+
+export function undoLayout<Id extends string>(history: LayoutHistory<Id>, current: GridNode<Id>): { grid: GridNode<Id>; history: LayoutHistory<Id> } | null {
+  const grid = history.past[history.past.length - 1];
+  return grid ? { grid, history: { past: history.past.slice(0, -1), future: [current, ...history.future] } } : null;
+}
+
+export function redoLayout<Id extends string>(history: LayoutHistory<Id>, current: GridNode<Id>): { grid: GridNode<Id>; history: LayoutHistory<Id> } | null {
+  const [grid, ...future] = history.future;
+  return grid ? { grid, history: { past: [...history.past, current], future } } : null;
+}
@@ -0,0 +1,46 @@
+import { sanitizeGrid, type GridNode } from './grid';
+
+const STORAGE_KEY = 'vscode-resume.workspace';
+
+/** Bump when the stored shape changes; older payloads are discarded rather than misread. */
+const VERSION = 2;
+
+export type WorkspaceState<Id extends string> = {
+  grid: GridNode<Id>;
+  sidebarCollapsed: boolean;
+  /** Explorer folders the user collapsed; folders are expanded by default. */
+  collapsedFolders: string[];
+};
+
+type StoredWorkspace = { version: number } & WorkspaceState<string>;
+
+/**
+ * Returns the saved layout with tabs for sections that no longer exist
+ * dropped, or null when nothing usable is stored.
+ */
+export function loadWorkspace<Id extends string>(isKnown: (id: string) => id is Id): WorkspaceState<Id> | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const stored = JSON.parse(raw) as Partial<StoredWorkspace>;
+    if (stored.version !== VERSION) return null;
+    const grid = sanitizeGrid(stored.grid, isKnown);
+    if (!grid) return null;
+    return {
+      grid,
+      sidebarCollapsed: stored.sidebarCollapsed === true,
+      collapsedFolders: Array.isArray(stored.collapsedFolders) ? stored.collapsedFolders.filter((p) => typeof p === 'string') : [],
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function saveWorkspace<Id extends string>(state: WorkspaceState<Id>) {
+  try {
+    const stored: StoredWorkspace = { version: VERSION, ...state };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // Storage can be full or disabled (private mode); the layout just won't persist.
+  }
+}
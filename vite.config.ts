@@ -1,9 +1,44 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
+import { validateResume } from './src/resume/schema'
 
+const BUNDLED_RESUME = 'virtual:bundled-resume'
+
+/**
+ * Serves public/resume.json as the `virtual:bundled-resume` module, the copy shown
+ * when no resume source can be reached. The build fails if the file doesn't
+ * validate as a `Resume`.
+ */
+function bundledResume(): Plugin {
+  const resolvedId = `\0${BUNDLED_RESUME}`
+  let file = ''
+  return {
+    name: 'bundled-resume',
+    configResolved(config) {
+      file = `${config.publicDir}/resume.json`
+    },
+    resolveId: (id) => (id === BUNDLED_RESUME ? resolvedId : undefined),
+    async load(id) {
+      if (id !== resolvedId) return
+      this.addWatchFile(file)
+      let json: unknown
+      try {
+        json = JSON.parse(await this.fs.readFile(file, { encoding: 'utf8' }))
+      } catch (err) {
+        this.error(`Could not read ${file}: ${(err as Error).message}`)
+      }
+      const { resume, problems } = validateResume(json)
+      const errors = problems.filter((p) => p.severity === 'error')
+      if (!resume || errors.length) {
+        this.error(`${file} doesn't match the Resume type:\n${errors.map((p) => `  ${p.path}: ${p.message}`).join('\n')}`)
+      }
+      return `export default ${JSON.stringify(resume)}`
+    },
+  }
+}
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react(),tailwindcss()],
+  plugins: [react(),tailwindcss(),bundledResume()],
 })